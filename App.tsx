@@ -1,11 +1,43 @@
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import type { ProcessedImage, ProcessingMode, ProcessingOptions, FloorEffect, TurntableTint } from './types';
-import { processCarImage, correctImage } from './services/geminiService';
+import type { ApiUsage, ExportProfile, ImageProviderId, OutputNaming, Preset, ProcessedImage, ProcessingMode, ProcessingOptions, ProcessingStatus, Project, ReviewState, ProjectSummary, PromptTemplate, TurntableEllipse, VehicleOverride } from './types';
+import { getImageProvider, IMAGE_PROVIDERS, DEFAULT_PROVIDER_ID } from './services/imageProvider';
+import type { ImageProvider } from './services/imageProvider';
+import { BUILT_IN_PROMPT_TEMPLATES, DEFAULT_PROCESSING_OPTIONS, getPromptTemplate, loadCustomPromptTemplates, saveCustomPromptTemplates } from './services/promptRegistry';
+import { createJobQueue, DEFAULT_QUEUE_OPTIONS } from './services/jobQueue';
+import type { JobQueue, QueueJob } from './services/jobQueue';
+import { addRevision, getCurrentRevision, selectRevision } from './services/revisions';
+import { applyExportProfile, BUILT_IN_EXPORT_PROFILES, dataUrlToBlob, findExportProfile, getExtensionForMimeType, loadCustomExportProfiles, ORIGINAL_EXPORT_PROFILE_ID, saveCustomExportProfiles } from './services/exportProfiles';
+import { applyTurntableTint, DEFAULT_TURNTABLE_ELLIPSE } from './services/turntableTint';
+import { buildManifestCsv, claimUniquePath, DEFAULT_OUTPUT_NAMING, renderFilename, renderFolder } from './services/outputNaming';
+import type { ManifestEntry, NamingContext } from './services/outputNaming';
+import { checkOutputQuality, checkReferenceDrift, MAX_QUALITY_RERUNS } from './services/qualityCheck';
+import { compositeWithMask, maskToModelInput } from './services/maskCompositing';
+import { addUsage, EMPTY_USAGE, estimateCallCost, formatCost, getErrorUsage, loadSessionBudget, saveSessionBudget } from './services/usage';
+import { ingestImages } from './services/ingestion';
+import { applyGalleryView, DEFAULT_GALLERY_VIEW, isRetryable } from './services/gallery';
+import type { GalleryView } from './services/gallery';
+import type { IngestReportEntry } from './services/ingestion';
+import { deletePreset, listPresets, presetFromJson, presetToJson, savePreset } from './services/presets';
+import { DEFAULT_VEHICLE_PATTERN, getStockNumber, groupByVehicle } from './services/vehicles';
+import { deleteProject, duplicateProject, getLastProjectId, listProjects, loadProject, saveProject, setLastProjectId } from './services/projectStore';
 import { Button } from './components/Button';
 import { ImageUploader } from './components/ImageUploader';
 import ImageCard from './components/ImageCard';
 import { Icon } from './components/Icon';
 import { FullScreenDropzone } from './components/FullScreenDropzone';
+import { ModeSelector } from './components/ModeSelector';
+import { ProjectPanel } from './components/ProjectPanel';
+import type { SaveState } from './components/ProjectPanel';
+import { ExportProfilePicker } from './components/ExportProfilePicker';
+import { TurntableMaskEditor } from './components/TurntableMaskEditor';
+import { OutputNamingPicker } from './components/OutputNamingPicker';
+import { PresetBar } from './components/PresetBar';
+import { UploadReport } from './components/UploadReport';
+import { GalleryToolbar } from './components/GalleryToolbar';
+import { ResultRow } from './components/ResultRow';
+import { Lightbox } from './components/Lightbox';
+import { BulkRefineBar } from './components/BulkRefineBar';
+import { VehicleGroupsPanel } from './components/VehicleGroupsPanel';
 
 // For JSZip from CDN
 declare global {
@@ -14,26 +46,125 @@ declare global {
   }
 }
 
-const getOutputFilename = (originalName: string): string => {
-    const parts = originalName.split('.');
-    const extension = parts.pop();
-    const name = parts.join('.');
-    return `${name}-processed.${extension || 'png'}`;
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// Runs a finished result through an export profile and names it after the format actually produced.
+const exportImage = async (
+    image: ProcessedImage,
+    profile: ExportProfile,
+    filenameTemplate: string,
+    context: NamingContext
+): Promise<{ blob: Blob; filename: string }> => {
+    const blob = await applyExportProfile(await dataUrlToBlob(image.processedUrl!), profile);
+    return { blob, filename: renderFilename(filenameTemplate, context, getExtensionForMimeType(blob.type)) };
+};
+
+// Only finished results can be refined; refining starts from the revision on show.
+const isRefinable = (image: ProcessedImage): boolean =>
+    (image.status === 'done' || image.status === 'needs-review') && !!image.processedUrl;
+
+// The approved result other shots of the same vehicle are matched against, if one has been chosen.
+const findVehicleReference = (images: ProcessedImage[], image: ProcessedImage, pattern: string): ProcessedImage | null => {
+  const stock = getStockNumber(image.originalFile.name, pattern);
+  if (!stock) return null;
+  return images.find(other => other.id !== image.id && other.isReference && !!other.processedUrl
+    && getStockNumber(other.originalFile.name, pattern) === stock) ?? null;
+};
+
+const summarizeProgress = (images: ProcessedImage[]) => ({
+  total: images.length,
+  done: images.filter(img => img.status === 'done').length,
+  approved: images.filter(img => img.reviewState === 'approved').length,
+  toReview: images.filter(img => img.status === 'needs-review').length,
+});
+
+const DEFAULT_PROJECT_NAME = 'Untitled project';
+const AUTOSAVE_DELAY_MS = 800;
+// While a batch runs the project changes with every job, so it is saved at most this often.
+const BATCH_AUTOSAVE_INTERVAL_MS = 10_000;
+
+// Anything still queued or running when the project was saved cannot resume after a reload, but can be queued again.
+const restoreProcessedImage = (image: Project['processedImages'][number]): ProcessedImage => {
+    const interrupted = image.status === 'pending' || image.status === 'processing' || image.status === 'paused';
+    // An image that already has revisions was being refined, and those revisions are still good.
+    const interruption: Partial<ProcessedImage> = image.revisions.length > 0
+        ? { status: 'done', error: 'Interrupted before the refinement finished.' }
+        : { status: 'cancelled', error: 'Interrupted before finishing.' };
+    return {
+        ...image,
+        originalUrl: URL.createObjectURL(image.originalFile),
+        nextRetryAt: null,
+        ...(interrupted ? interruption : {}),
+    };
 };
 
 const App: React.FC = () => {
   const [carImages, setCarImages] = useState<File[]>([]);
-  const [backgroundImage, setBackgroundImage] = useState<File | null>(null);
+  const [backgroundImages, setBackgroundImages] = useState<File[]>([]);
   const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [globalError, setGlobalError] = useState<string | null>(null);
   const [processingMode, setProcessingMode] = useState<ProcessingMode>('full');
+  const [concurrency, setConcurrency] = useState(DEFAULT_QUEUE_OPTIONS.concurrency);
+  const [providerId, setProviderId] = useState<ImageProviderId>(DEFAULT_PROVIDER_ID);
   
-  // --- State for partial wall options ---
-  const [floorEffect, setFloorEffect] = useState<FloorEffect>('none');
-  const [matchReflections, setMatchReflections] = useState(false);
-  // --- State for turntable options ---
-  const [turntableTint, setTurntableTint] = useState<TurntableTint>('none');
+  const [processingOptions, setProcessingOptions] = useState<ProcessingOptions>(DEFAULT_PROCESSING_OPTIONS);
+  const [customTemplates, setCustomTemplates] = useState<PromptTemplate[]>(loadCustomPromptTemplates);
+  const [exportProfileId, setExportProfileId] = useState(ORIGINAL_EXPORT_PROFILE_ID);
+  const [customExportProfiles, setCustomExportProfiles] = useState<ExportProfile[]>(loadCustomExportProfiles);
+  const [outputNaming, setOutputNaming] = useState<OutputNaming>(DEFAULT_OUTPUT_NAMING);
+  // --- State for the local turntable tint ---
+  const [localTurntableTint, setLocalTurntableTint] = useState(true);
+  const [turntableMask, setTurntableMask] = useState<TurntableEllipse>(DEFAULT_TURNTABLE_ELLIPSE);
+  const [autoRerunFlagged, setAutoRerunFlagged] = useState(false);
+  const [vehiclePattern, setVehiclePattern] = useState(DEFAULT_VEHICLE_PATTERN);
+  const [vehicleOverrides, setVehicleOverrides] = useState<Record<string, VehicleOverride>>({});
+  const [retryWithCurrentSettings, setRetryWithCurrentSettings] = useState(false);
+  const [exportUnreviewed, setExportUnreviewed] = useState(false);
+  const [presets, setPresets] = useState<Preset[]>([]);
+  const [uploadReport, setUploadReport] = useState<{ id: string; title: string; entries: IngestReportEntry[] } | null>(null);
+  // Title of the upload being prepared, shown while large photos are decoded and downscaled.
+  const [ingestingTitle, setIngestingTitle] = useState<string | null>(null);
+
+  // --- State for API spend, counted since the page was opened ---
+  const [sessionUsage, setSessionUsage] = useState<ApiUsage>(EMPTY_USAGE);
+  const [budgetUsd, setBudgetUsd] = useState<number | null>(loadSessionBudget);
+  const [isBudgetPaused, setIsBudgetPaused] = useState(false);
+  const [isBatchPaused, setIsBatchPaused] = useState(false);
+  // The queue reads these between jobs, after the render that would update a closure.
+  const sessionUsageRef = React.useRef(sessionUsage);
+  const budgetRef = React.useRef(budgetUsd);
+  const queueRef = React.useRef<JobQueue | null>(null);
+  const refinementControllersRef = React.useRef(new Map<string, AbortController>());
+  // Images with a refinement in the queue, and the status to return to if it fails or is cancelled.
+  const queuedRefinementsRef = React.useRef(new Map<string, ProcessingStatus>());
+  const [selectedImageIds, setSelectedImageIds] = useState<Set<string>>(() => new Set());
+  const [galleryView, setGalleryView] = useState<GalleryView>(DEFAULT_GALLERY_VIEW);
+  // Position in the filtered and sorted results, so acting on an image that then leaves the view moves on to the next.
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+
+  // --- State for projects ---
+  const [projectId, setProjectId] = useState<string>(() => crypto.randomUUID());
+  const [projectName, setProjectName] = useState(DEFAULT_PROJECT_NAME);
+  const [projectCreatedAt, setProjectCreatedAt] = useState(() => Date.now());
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [isRestoring, setIsRestoring] = useState(true);
+
+  const exportProfiles = useMemo(() => [...BUILT_IN_EXPORT_PROFILES, ...customExportProfiles], [customExportProfiles]);
+
+  const promptTemplates = useMemo(() => [...BUILT_IN_PROMPT_TEMPLATES, ...customTemplates], [customTemplates]);
+  const activeTemplate = useMemo(() => getPromptTemplate(processingMode, customTemplates), [processingMode, customTemplates]);
+  const usesLocalTurntableTint = activeTemplate.id === 'tint-turntable-only' && localTurntableTint;
 
   // --- State for global drag-n-drop ---
   const [isDragging, setIsDragging] = useState(false);
@@ -45,40 +176,241 @@ const App: React.FC = () => {
     url: URL.createObjectURL(file)
   })), [carImages]);
   
-  const backgroundPreview = useMemo(() => {
-    return backgroundImage ? { file: backgroundImage, url: URL.createObjectURL(backgroundImage) } : null;
-  }, [backgroundImage]);
+  const backgroundPreviews = useMemo(() => backgroundImages.map(file => ({
+    file: file,
+    url: URL.createObjectURL(file)
+  })), [backgroundImages]);
 
   useEffect(() => {
     // Cleanup preview URLs
     return () => {
       carImagePreviews.forEach(p => URL.revokeObjectURL(p.url));
-      if (backgroundPreview) {
-        URL.revokeObjectURL(backgroundPreview.url);
-      }
+      backgroundPreviews.forEach(p => URL.revokeObjectURL(p.url));
     };
-  }, [carImagePreviews, backgroundPreview]);
+  }, [carImagePreviews, backgroundPreviews]);
   
-  // --- Reset options if mode changes ---
+  // --- Reset options the selected mode does not use ---
   useEffect(() => {
-    if (processingMode !== 'partial-wall') {
-      setFloorEffect('none');
-      setMatchReflections(false);
-    }
-    if (processingMode !== 'turntable-tint' && processingMode !== 'tint-turntable-only') {
-      setTurntableTint('none');
-    }
-  }, [processingMode]);
+    const uses = (variable: keyof ProcessingOptions) => activeTemplate.variables.includes(variable);
+    // Tint colours and opacities are kept across modes so switching back does not lose a brand colour.
+    setProcessingOptions(prev => ({
+      ...prev,
+      floorEffect: uses('floorEffect') ? prev.floorEffect : DEFAULT_PROCESSING_OPTIONS.floorEffect,
+      matchReflections: uses('matchReflections') ? prev.matchReflections : DEFAULT_PROCESSING_OPTIONS.matchReflections,
+      turntableTint: uses('turntableTint') ? prev.turntableTint : DEFAULT_PROCESSING_OPTIONS.turntableTint,
+    }));
+  }, [activeTemplate]);
+
+  useEffect(() => {
+    saveCustomPromptTemplates(customTemplates);
+  }, [customTemplates]);
+
+  useEffect(() => {
+    saveCustomExportProfiles(customExportProfiles);
+  }, [customExportProfiles]);
+
+  useEffect(() => {
+    budgetRef.current = budgetUsd;
+    saveSessionBudget(budgetUsd);
+  }, [budgetUsd]);
 
   // --- End of previews ---
 
+  // Cleanup object URLs for processed images once they leave the results, to prevent memory leaks
+  const processedImagesRef = React.useRef(processedImages);
   useEffect(() => {
-    // Cleanup object URLs for processed images to prevent memory leaks
-    return () => {
-      processedImages.forEach(image => URL.revokeObjectURL(image.originalUrl));
-    };
+    processedImagesRef.current = processedImages;
   }, [processedImages]);
 
+  const originalUrlsRef = React.useRef(new Set<string>());
+  useEffect(() => {
+    const current = new Set(processedImages.map(image => image.originalUrl));
+    originalUrlsRef.current.forEach(url => {
+      if (!current.has(url)) URL.revokeObjectURL(url);
+    });
+    originalUrlsRef.current = current;
+  }, [processedImages]);
+
+  // --- Project persistence ---
+  const currentProject = useMemo((): Project => ({
+    id: projectId,
+    name: projectName.trim() || DEFAULT_PROJECT_NAME,
+    createdAt: projectCreatedAt,
+    updatedAt: Date.now(),
+    carImages,
+    backgroundImages,
+    processedImages: processedImages.map(({ originalUrl: _originalUrl, ...image }) => image),
+    settings: { processingMode, processingOptions, providerId, concurrency, exportProfileId, localTurntableTint, turntableMask, outputNaming, autoRerunFlagged, vehiclePattern, vehicleOverrides },
+  }), [projectId, projectName, projectCreatedAt, carImages, backgroundImages, processedImages, processingMode, processingOptions, providerId, concurrency, exportProfileId, localTurntableTint, turntableMask, outputNaming, autoRerunFlagged, vehiclePattern, vehicleOverrides]);
+
+  const isProjectEmpty = carImages.length === 0 && backgroundImages.length === 0 && processedImages.length === 0;
+
+  const applyProject = useCallback((project: Project) => {
+    const modeExists = project.settings.processingMode.startsWith('custom:')
+      ? customTemplates.some(t => t.id === project.settings.processingMode)
+      : true;
+    setProjectId(project.id);
+    setProjectName(project.name);
+    setProjectCreatedAt(project.createdAt);
+    setCarImages(project.carImages);
+    setBackgroundImages(project.backgroundImages);
+    setProcessedImages(project.processedImages.map(restoreProcessedImage));
+    setProcessingMode(modeExists ? project.settings.processingMode : 'full');
+    setProcessingOptions(project.settings.processingOptions);
+    setProviderId(project.settings.providerId);
+    setConcurrency(project.settings.concurrency);
+    setExportProfileId(project.settings.exportProfileId);
+    setLocalTurntableTint(project.settings.localTurntableTint);
+    setTurntableMask(project.settings.turntableMask);
+    setOutputNaming(project.settings.outputNaming);
+    setAutoRerunFlagged(project.settings.autoRerunFlagged);
+    setVehiclePattern(project.settings.vehiclePattern);
+    setVehicleOverrides(project.settings.vehicleOverrides);
+    setGlobalError(null);
+    setSaveState('saved');
+    setLastProjectId(project.id);
+  }, [customTemplates]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      console.error("Failed to list projects:", error);
+      setGlobalError("Could not read saved projects from browser storage.");
+    }
+  }, []);
+
+  // Restore the last session once on startup.
+  useEffect(() => {
+    const restore = async () => {
+      const lastProjectId = getLastProjectId();
+      try {
+        const project = lastProjectId ? await loadProject(lastProjectId) : null;
+        if (project) applyProject(project);
+      } catch (error) {
+        console.error("Failed to restore the last session:", error);
+      } finally {
+        setIsRestoring(false);
+      }
+    };
+    restore();
+  }, []);
+
+  const latestProjectRef = React.useRef(currentProject);
+  latestProjectRef.current = currentProject;
+  const batchSaveTimerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const autosave = useCallback(async (project: Project) => {
+    try {
+      await saveProject(project);
+      setLastProjectId(project.id);
+      setSaveState('saved');
+    } catch (error) {
+      console.error("Failed to save project:", error);
+      setSaveState('error');
+    }
+  }, []);
+
+  // Each save structured-clones every source file and revision. Outside a batch the save waits for
+  // changes to settle; during one it is throttled instead, so results survive a crash mid-batch.
+  useEffect(() => {
+    if (isRestoring || isProjectEmpty) return;
+    setSaveState('saving');
+    if (isProcessing) {
+      if (batchSaveTimerRef.current) return;
+      batchSaveTimerRef.current = setTimeout(() => {
+        batchSaveTimerRef.current = null;
+        autosave(latestProjectRef.current);
+      }, BATCH_AUTOSAVE_INTERVAL_MS);
+      return;
+    }
+    if (batchSaveTimerRef.current) {
+      clearTimeout(batchSaveTimerRef.current);
+      batchSaveTimerRef.current = null;
+    }
+    const timer = setTimeout(() => autosave(currentProject), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentProject, isRestoring, isProjectEmpty, isProcessing, autosave]);
+
+  useEffect(() => () => {
+    if (batchSaveTimerRef.current) clearTimeout(batchSaveTimerRef.current);
+  }, []);
+
+  const flushCurrentProject = useCallback(async () => {
+    if (isProjectEmpty) return;
+    await saveProject(currentProject);
+  }, [currentProject, isProjectEmpty]);
+
+  const handleOpenProject = useCallback(async (id: string) => {
+    try {
+      await flushCurrentProject();
+      const project = await loadProject(id);
+      if (!project) {
+        setGlobalError("That project could not be found.");
+        return;
+      }
+      applyProject(project);
+    } catch (error) {
+      console.error("Failed to open project:", error);
+      setGlobalError("Could not open the project.");
+    }
+  }, [flushCurrentProject, applyProject]);
+
+  const handleNewProject = useCallback(async () => {
+    try {
+      await flushCurrentProject();
+    } catch (error) {
+      console.error("Failed to save project:", error);
+    }
+    const now = Date.now();
+    applyProject({
+      id: crypto.randomUUID(),
+      name: DEFAULT_PROJECT_NAME,
+      createdAt: now,
+      updatedAt: now,
+      carImages: [],
+      backgroundImages: [],
+      processedImages: [],
+      settings: {
+        processingMode: 'full',
+        processingOptions: DEFAULT_PROCESSING_OPTIONS,
+        providerId,
+        concurrency,
+        exportProfileId,
+        localTurntableTint: true,
+        turntableMask: DEFAULT_TURNTABLE_ELLIPSE,
+        outputNaming,
+        autoRerunFlagged,
+        vehiclePattern,
+        vehicleOverrides: {},
+      },
+    });
+    setSaveState('idle');
+  }, [flushCurrentProject, applyProject, providerId, concurrency, exportProfileId, outputNaming, autoRerunFlagged, vehiclePattern]);
+
+  const handleDuplicateProject = useCallback(async (id: string) => {
+    try {
+      if (id === projectId) await flushCurrentProject();
+      await duplicateProject(id);
+      await refreshProjects();
+    } catch (error) {
+      console.error("Failed to duplicate project:", error);
+      setGlobalError("Could not duplicate the project.");
+    }
+  }, [projectId, flushCurrentProject, refreshProjects]);
+
+  const handleDeleteProject = useCallback(async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!window.confirm(`Delete "${project?.name ?? 'this project'}"? Its images and results will be removed from this browser.`)) return;
+    try {
+      await deleteProject(id);
+      await refreshProjects();
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      setGlobalError("Could not delete the project.");
+    }
+  }, [projects, refreshProjects]);
+
   // --- Global Drag-n-Drop handlers ---
     const handleWindowDrag = useCallback((e: DragEvent) => {
         e.preventDefault();
@@ -126,91 +458,620 @@ const App: React.FC = () => {
     // --- End Global Drag-n-Drop ---
 
 
-  const handleCarImagesSelected = useCallback((files: File[]) => {
-    setCarImages(files);
+  // Uploads are ingested one at a time, each checked for duplicates and the file limit against the list
+  // as the previous upload left it. The refs run ahead of state until the appended files are rendered.
+  const carImagesRef = React.useRef(carImages);
+  carImagesRef.current = carImages;
+  const backgroundImagesRef = React.useRef(backgroundImages);
+  backgroundImagesRef.current = backgroundImages;
+  const ingestionRef = React.useRef<Promise<unknown>>(Promise.resolve());
+
+  // Expands folders and archives and prepares each image, reporting what happened to every file.
+  const ingestUpload = useCallback((files: File[], listRef: { current: File[] }, title: string, dropReport: IngestReportEntry[] = []): Promise<File[]> => {
+    const ingestion = ingestionRef.current.then(async () => {
+      setIngestingTitle(title);
+      try {
+        const { files: accepted, report } = await ingestImages(files, listRef.current);
+        listRef.current = [...listRef.current, ...accepted];
+        setUploadReport({ id: crypto.randomUUID(), title, entries: [...dropReport, ...report] });
+        return accepted;
+      } catch (error) {
+        console.error("Failed to read uploaded files:", error);
+        setGlobalError("Could not read the uploaded files.");
+        return [];
+      } finally {
+        setIngestingTitle(null);
+      }
+    });
+    ingestionRef.current = ingestion;
+    return ingestion;
   }, []);
+
+  // New uploads add to the selection; "Clear all" starts over.
+  const handleCarImagesSelected = useCallback(async (files: File[], dropReport?: IngestReportEntry[]) => {
+    const accepted = await ingestUpload(files, carImagesRef, 'Car images', dropReport);
+    if (accepted.length > 0) setCarImages(prev => [...prev, ...accepted]);
+  }, [ingestUpload]);
   
   const handleRemoveCarImage = useCallback((fileToRemove: File) => {
     setCarImages(prev => prev.filter(file => file !== fileToRemove));
   }, []);
 
-  const handleBackgroundImageSelected = useCallback((files: File[]) => {
-    if (files.length > 0) {
-      setBackgroundImage(files[0]);
+  // Backgrounds accumulate so a batch can target several backdrops at once.
+  const handleBackgroundImagesSelected = useCallback(async (files: File[], dropReport?: IngestReportEntry[]) => {
+    const accepted = await ingestUpload(files, backgroundImagesRef, 'Backgrounds', dropReport);
+    if (accepted.length > 0) setBackgroundImages(prev => [...prev, ...accepted]);
+  }, [ingestUpload]);
+
+  const handleRemoveBackgroundImage = useCallback((fileToRemove: File) => {
+    setBackgroundImages(prev => prev.filter(file => file !== fileToRemove));
+  }, []);
+
+  const updateImage = useCallback((id: string, changes: Partial<ProcessedImage> | ((image: ProcessedImage) => ProcessedImage)) => {
+    setProcessedImages(prev => prev.map(p => {
+      if (p.id !== id) return p;
+      return typeof changes === 'function' ? changes(p) : { ...p, ...changes };
+    }));
+  }, []);
+
+  // Billed calls count towards both the result they were made for and the session total, failed ones included.
+  const recordUsage = useCallback((id: string, usage: ApiUsage | null) => {
+    if (!usage) return;
+    sessionUsageRef.current = addUsage(sessionUsageRef.current, usage);
+    setSessionUsage(sessionUsageRef.current);
+    updateImage(id, p => ({ ...p, usage: addUsage(p.usage ?? EMPTY_USAGE, usage) }));
+  }, [updateImage]);
+
+  // True when starting `calls` more calls, on top of `inFlight` already running, could take the session past its budget.
+  const wouldExceedBudget = useCallback((model: string | null, inFlight: number, calls = 1) => {
+    if (budgetRef.current === null || model === null) return false;
+    return sessionUsageRef.current.costUsd + (inFlight + calls) * estimateCallCost(model) > budgetRef.current;
+  }, []);
+
+  const handleResetSessionUsage = useCallback(() => {
+    sessionUsageRef.current = EMPTY_USAGE;
+    setSessionUsage(EMPTY_USAGE);
+  }, []);
+
+  const handleOptionsChange = useCallback((changes: Partial<ProcessingOptions>) => {
+    setProcessingOptions(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const handleAddCustomMode = useCallback((template: PromptTemplate) => {
+    setCustomTemplates(prev => [...prev, template]);
+    setProcessingMode(template.id);
+  }, []);
+
+  const handleAddExportProfile = useCallback((profile: ExportProfile) => {
+    setCustomExportProfiles(prev => [...prev, profile]);
+    setExportProfileId(profile.id);
+  }, []);
+
+  const handleDeleteExportProfile = useCallback((profileId: string) => {
+    setCustomExportProfiles(prev => prev.filter(p => p.id !== profileId));
+    setExportProfileId(prev => prev === profileId ? ORIGINAL_EXPORT_PROFILE_ID : prev);
+  }, []);
+
+  // --- Vehicle groups ---
+  // A vehicle's preset replaces the current mode, options and turntable settings, and its backgrounds
+  // if it has any; a background chosen for the vehicle replaces both.
+  const resolveCarSettings = useCallback((file: File) => {
+    const stock = getStockNumber(file.name, vehiclePattern);
+    const override = stock ? vehicleOverrides[stock] : undefined;
+    const preset = override?.presetId ? presets.find(p => p.id === override.presetId) : undefined;
+    const template = preset
+      ? getPromptTemplate(preset.processingMode, preset.customTemplate ? [...customTemplates, preset.customTemplate] : customTemplates)
+      : activeTemplate;
+    const backgroundOverride = override?.backgroundName ? backgroundImages.find(f => f.name === override.backgroundName) ?? null : null;
+    const defaultBackgrounds = preset && preset.backgroundImages.length > 0 ? preset.backgroundImages : backgroundImages;
+    return {
+      template,
+      processingOptions: preset?.processingOptions ?? processingOptions,
+      localTurntableTint: preset?.localTurntableTint ?? localTurntableTint,
+      turntableMask: preset?.turntableMask ?? turntableMask,
+      backgroundOverride,
+      backgrounds: !template.requiresBackground ? [null] : backgroundOverride ? [backgroundOverride] : defaultBackgrounds,
+    };
+  }, [vehiclePattern, vehicleOverrides, presets, customTemplates, activeTemplate, backgroundImages, processingOptions, localTurntableTint, turntableMask]);
+
+  const batchPlan = useMemo(() => carImages.map(file => ({ file, ...resolveCarSettings(file) })), [carImages, resolveCarSettings]);
+
+  // A preset's custom mode has to be known here before the queue can render with it.
+  const handleVehicleOverrideChange = useCallback((stock: string, override: VehicleOverride) => {
+    const customTemplate = presets.find(p => p.id === override.presetId)?.customTemplate;
+    if (customTemplate) {
+      setCustomTemplates(prev => prev.some(t => t.id === customTemplate.id) ? prev : [...prev, customTemplate]);
+    }
+    setVehicleOverrides(prev => {
+      const { [stock]: _previous, ...rest } = prev;
+      return override.presetId || override.backgroundName ? { ...rest, [stock]: override } : rest;
+    });
+  }, [presets]);
+
+  // --- Presets ---
+  const refreshPresets = useCallback(async () => {
+    try {
+      setPresets(await listPresets());
+    } catch (error) {
+      console.error("Failed to list presets:", error);
+      setGlobalError("Could not read saved presets from browser storage.");
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshPresets();
+  }, [refreshPresets]);
+
+  const handleSavePreset = useCallback(async (name: string) => {
+    const exportProfile = findExportProfile(exportProfileId, customExportProfiles);
+    try {
+      await savePreset({
+        id: crypto.randomUUID(),
+        name,
+        createdAt: Date.now(),
+        processingMode,
+        processingOptions,
+        customTemplate: activeTemplate.builtIn ? null : activeTemplate,
+        backgroundImages,
+        localTurntableTint,
+        turntableMask,
+        exportProfileId: exportProfile.id,
+        customExportProfile: exportProfile.builtIn ? null : exportProfile,
+        outputNaming,
+      });
+      await refreshPresets();
+    } catch (error) {
+      console.error("Failed to save preset:", error);
+      setGlobalError("Could not save the preset.");
+    }
+  }, [exportProfileId, customExportProfiles, processingMode, processingOptions, activeTemplate, backgroundImages, localTurntableTint, turntableMask, outputNaming, refreshPresets]);
+
+  // Custom modes and export profiles carried by a preset are added here if this browser does not have them yet.
+  const handleApplyPreset = useCallback((preset: Preset) => {
+    const { customTemplate, customExportProfile } = preset;
+    if (customTemplate) {
+      setCustomTemplates(prev => prev.some(t => t.id === customTemplate.id) ? prev : [...prev, customTemplate]);
+    }
+    if (customExportProfile) {
+      setCustomExportProfiles(prev => prev.some(p => p.id === customExportProfile.id) ? prev : [...prev, customExportProfile]);
+    }
+    const exportProfileExists = !!customExportProfile || BUILT_IN_EXPORT_PROFILES.some(p => p.id === preset.exportProfileId);
+    setProcessingMode(preset.processingMode);
+    setProcessingOptions(preset.processingOptions);
+    setBackgroundImages(preset.backgroundImages);
+    setLocalTurntableTint(preset.localTurntableTint);
+    setTurntableMask(preset.turntableMask);
+    setExportProfileId(exportProfileExists ? preset.exportProfileId : ORIGINAL_EXPORT_PROFILE_ID);
+    setOutputNaming(preset.outputNaming);
+    setGlobalError(null);
+  }, []);
+
+  const handleExportPreset = useCallback(async (preset: Preset) => {
+    try {
+      const json = await presetToJson(preset);
+      const filename = `${preset.name.replace(/[\\/:*?"<>|]+/g, '-')}.autoshade-preset.json`;
+      downloadBlob(new Blob([json], { type: 'application/json' }), filename);
+    } catch (error) {
+      console.error("Failed to export preset:", error);
+      setGlobalError(`Could not export the preset "${preset.name}".`);
     }
   }, []);
 
-  const handleRemoveBackgroundImage = useCallback(() => {
-    setBackgroundImage(null);
+  const handleImportPresets = useCallback(async (files: File[]) => {
+    const failures: string[] = [];
+    for (const file of files) {
+      try {
+        await savePreset(await presetFromJson(await file.text()));
+      } catch (error) {
+        console.error(`Failed to import preset ${file.name}:`, error);
+        failures.push(`${file.name}: ${error instanceof Error ? error.message : "An unknown error occurred."}`);
+      }
+    }
+    setGlobalError(failures.length > 0 ? `Could not import ${failures.join('; ')}` : null);
+    await refreshPresets();
+  }, [refreshPresets]);
+
+  const handleDeletePreset = useCallback(async (preset: Preset) => {
+    if (!window.confirm(`Delete the preset "${preset.name}"?`)) return;
+    try {
+      await deletePreset(preset.id);
+      await refreshPresets();
+    } catch (error) {
+      console.error("Failed to delete preset:", error);
+      setGlobalError("Could not delete the preset.");
+    }
+  }, [refreshPresets]);
+
+  const handleDeleteCustomMode = useCallback((mode: ProcessingMode) => {
+    setCustomTemplates(prev => prev.filter(t => t.id !== mode));
+    setProcessingMode(prev => prev === mode ? 'full' : prev);
   }, []);
 
 
+  // Adds jobs to the running queue, or starts one and keeps the UI in its processing state until it drains.
+  const runJobs = async (jobs: QueueJob[]) => {
+    if (queueRef.current) {
+        queueRef.current.enqueue(jobs);
+        return;
+    }
+
+    const model = getImageProvider(providerId).model;
+    // Refinements restore the status they had before, so a failure or cancel leaves the earlier revisions usable.
+    const endRefinement = (id: string, changes: Partial<ProcessedImage>) => {
+        const previousStatus = queuedRefinementsRef.current.get(id)!;
+        queuedRefinementsRef.current.delete(id);
+        updateImage(id, { status: previousStatus, nextRetryAt: null, ...changes });
+    };
+    const queue = createJobQueue({
+        ...DEFAULT_QUEUE_OPTIONS,
+        concurrency,
+        onAttempt: (id, attempt) => updateImage(id, queuedRefinementsRef.current.has(id)
+            ? { status: 'processing', nextRetryAt: null, error: undefined }
+            : { status: 'processing', attempts: attempt, nextRetryAt: null, error: undefined }),
+        onRetryScheduled: (id, _nextAttempt, retryAt, error) => {
+            recordUsage(id, getErrorUsage(error));
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            updateImage(id, { status: 'pending', nextRetryAt: retryAt, error: errorMessage });
+        },
+        onSuccess: (id) => queuedRefinementsRef.current.delete(id),
+        onFailure: (id, error) => {
+            const image = processedImagesRef.current.find(p => p.id === id);
+            recordUsage(id, getErrorUsage(error));
+            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
+            if (queuedRefinementsRef.current.has(id)) {
+                console.error(`Failed to correct image ${image?.originalFile.name}:`, error);
+                endRefinement(id, { error: `Refinement failed: ${errorMessage}` });
+                return;
+            }
+            console.error(`Failed to process image ${image?.originalFile.name}:`, error);
+            updateImage(id, { status: 'error', error: errorMessage, nextRetryAt: null });
+        },
+        onCancel: (id) => {
+            if (queuedRefinementsRef.current.has(id)) {
+                endRefinement(id, { error: undefined });
+                return;
+            }
+            updateImage(id, { status: 'cancelled', nextRetryAt: null, error: undefined });
+        },
+        onHold: (id) => updateImage(id, { status: 'paused', nextRetryAt: null }),
+        shouldPause: (activeJobs) => wouldExceedBudget(model, activeJobs),
+        onPause: () => setIsBudgetPaused(true),
+    });
+    queueRef.current = queue;
+    setIsProcessing(true);
+    queue.enqueue(jobs);
+
+    await queue.onIdle();
+    queueRef.current = null;
+    setIsBudgetPaused(false);
+    setIsBatchPaused(false);
+    setIsProcessing(false);
+  };
+
+  // Queues images for generation. Each image is rendered with its own mode, options and turntable settings;
+  // the provider is the one current when it is queued.
+  const enqueueImages = (images: ProcessedImage[]) => {
+    const provider = getImageProvider(providerId);
+    const rerunFlagged = autoRerunFlagged;
+    const pattern = vehiclePattern;
+
+    return runJobs(images.map(image => ({
+        id: image.id,
+        run: async (_attempt: number, signal: AbortSignal) => {
+            const template = getPromptTemplate(image.processingMode, customTemplates);
+            const options = image.processingOptions;
+            if (image.localTurntableTint && template.id === 'tint-turntable-only' && options.turntableTint === 'tint') {
+                const resultUrl = await applyTurntableTint(image.originalFile, image.turntableMask, options.turntableTintColor, options.turntableTintOpacity / 100);
+                signal.throwIfAborted();
+                updateImage(image.id, p => ({ ...addRevision(p, resultUrl, 'generated', `${template.label} (local)`), status: 'done', error: undefined }));
+                return;
+            }
+            // Looked up when the job starts, so a reference chosen mid-batch applies to the shots still to come.
+            const reference = findVehicleReference(processedImagesRef.current, image, pattern);
+            const referenceUrl = reference?.processedUrl ?? null;
+            const referenceFile = referenceUrl ? await dataUrlToBlob(referenceUrl).then(blob => new File([blob], `reference-${reference!.originalFile.name}`, { type: blob.type })) : null;
+            const checkResult = async (url: string) => {
+                // In-place modes keep the photo and only change a small area, which the "unchanged" check would flag.
+                const issues = await checkOutputQuality(image.originalFile, url, template.requiresBackground);
+                if (!referenceUrl) return { issues, drift: undefined };
+                const { score, issue } = await checkReferenceDrift(referenceUrl, url);
+                return { issues: issue ? [...issues, issue] : issues, drift: score };
+            };
+            let result = await provider.processCarImage(image.originalFile, image.backgroundFile, template, options, referenceFile, signal);
+            recordUsage(image.id, result.usage);
+            let checked = await checkResult(result.url);
+            // Reruns are skipped rather than paused for once the budget is nearly spent; the result is flagged instead.
+            // Like the queue's own check, every other running job counts as one call in flight.
+            const canAffordRerun = () => !wouldExceedBudget(provider.model, Math.max(0, (queueRef.current?.activeJobs() ?? 1) - 1));
+            for (let rerun = 1; rerunFlagged && checked.issues.length > 0 && rerun <= MAX_QUALITY_RERUNS && canAffordRerun(); rerun++) {
+                result = await provider.processCarImage(image.originalFile, image.backgroundFile, template, options, referenceFile, signal);
+                recordUsage(image.id, result.usage);
+                checked = await checkResult(result.url);
+            }
+            // A cancel that lands after the response arrives still discards it.
+            signal.throwIfAborted();
+            const resultUrl = result.url;
+            const { issues, drift } = checked;
+            updateImage(image.id, p => ({
+                ...addRevision(p, resultUrl, 'generated', template.label),
+                status: issues.length > 0 ? 'needs-review' : 'done',
+                qualityIssues: issues.length > 0 ? issues : undefined,
+                referenceDrift: drift,
+                error: undefined,
+            }));
+        },
+    })));
+  };
+
   const handleProcessImages = async () => {
-    if (carImages.length === 0 || (processingMode !== 'tint-turntable-only' && !backgroundImage)) {
+    if (carImages.length === 0 || batchPlan.some(plan => plan.backgrounds.length === 0)) {
       setGlobalError("Please upload at least one car image and a background image.");
       return;
     }
 
-    setIsProcessing(true);
     setGlobalError(null);
     
-    const initialProcessedImages: ProcessedImage[] = carImages.map(file => ({
+    // One result per car and background combination, ordered so each car's variants sit together.
+    const initialProcessedImages: ProcessedImage[] = batchPlan.flatMap(plan => plan.backgrounds.map((backgroundFile): ProcessedImage => ({
         id: crypto.randomUUID(),
-        originalFile: file,
-        originalUrl: URL.createObjectURL(file),
+        originalFile: plan.file,
+        originalUrl: URL.createObjectURL(plan.file),
+        backgroundFile,
+        processingMode: plan.template.id,
+        processingOptions: plan.processingOptions,
+        localTurntableTint: plan.localTurntableTint,
+        turntableMask: plan.turntableMask,
         processedUrl: null,
-        status: 'pending'
-    }));
+        status: 'pending',
+        reviewState: 'unreviewed',
+        attempts: 0,
+        nextRetryAt: null,
+        revisions: [],
+        currentRevisionId: null,
+    })));
     setProcessedImages(initialProcessedImages);
+    await enqueueImages(initialProcessedImages);
+  };
 
-    const processingPromises = initialProcessedImages.map(async (image) => {
-        setProcessedImages(prev => prev.map(p => p.id === image.id ? { ...p, status: 'processing' } : p));
-        try {
-            const options: Partial<ProcessingOptions> = {
-                floorEffect,
-                matchReflections,
-                turntableTint,
-            };
-            const resultUrl = await processCarImage(image.originalFile, backgroundImage, processingMode, options);
-            setProcessedImages(prev => prev.map(p => p.id === image.id ? { ...p, status: 'done', processedUrl: resultUrl } : p));
-        } catch (error) {
-            console.error(`Failed to process image ${image.originalFile.name}:`, error);
-            const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-            setProcessedImages(prev => prev.map(p => p.id === image.id ? { ...p, status: 'error', error: errorMessage } : p));
-        }
-    });
+  // Regenerates only the given results, keeping their earlier revisions. By default each keeps its own
+  // mode and options; with `retryWithCurrentSettings` it takes the ones selected now.
+  const handleRetryImages = (imageIds: string[]) => {
+    const ids = new Set(imageIds);
+    const images = processedImages.filter(p => ids.has(p.id) && isRetryable(p));
+    if (images.length === 0) return;
 
-    await Promise.all(processingPromises);
-    setIsProcessing(false);
+    let retried = images;
+    if (retryWithCurrentSettings) {
+      // "Current" includes the preset or background assigned to the image's vehicle.
+      const settings = images.map(image => resolveCarSettings(image.originalFile));
+      const missing = images.findIndex((image, index) => settings[index].template.requiresBackground && !image.backgroundFile && settings[index].backgrounds.length === 0);
+      if (missing !== -1) {
+        setGlobalError(`The "${settings[missing].template.label}" mode needs a background. Upload one or retry with the original settings.`);
+        return;
+      }
+      retried = images.map((image, index) => {
+        const { template, processingOptions: options, localTurntableTint, turntableMask, backgroundOverride, backgrounds } = settings[index];
+        return {
+          ...image,
+          processingMode: template.id,
+          processingOptions: options,
+          localTurntableTint,
+          turntableMask,
+          backgroundFile: template.requiresBackground ? backgroundOverride ?? image.backgroundFile ?? backgrounds[0] : null,
+        };
+      });
+    }
+
+    setGlobalError(null);
+    retried.forEach(image => updateImage(image.id, {
+      processingMode: image.processingMode,
+      processingOptions: image.processingOptions,
+      localTurntableTint: image.localTurntableTint,
+      turntableMask: image.turntableMask,
+      backgroundFile: image.backgroundFile,
+      status: 'pending',
+      attempts: 0,
+      nextRetryAt: null,
+      error: undefined,
+      qualityIssues: undefined,
+    }));
+    enqueueImages(retried);
   };
-  
-  const handleCorrectImage = async (imageId: string, correction: string) => {
+
+  const handleRetryImage = (imageId: string) => handleRetryImages([imageId]);
+
+  const handleRetryFailed = () => handleRetryImages(processedImages.filter(p => p.status === 'error').map(p => p.id));
+
+  const handlePauseBatch = useCallback(() => {
+    queueRef.current?.pause();
+    setIsBatchPaused(true);
+  }, []);
+
+  // Picks up again if the budget now allows it; otherwise the queue pauses straight back.
+  const handleResumeQueue = useCallback(() => {
+    setIsBudgetPaused(false);
+    setIsBatchPaused(false);
+    queueRef.current?.resume();
+  }, []);
+
+  const handleCancelBatch = useCallback(() => {
+    if (!window.confirm('Cancel every image that has not finished? Requests in progress are abandoned.')) return;
+    queueRef.current?.cancel();
+  }, []);
+
+  const handlePauseImage = useCallback((imageId: string) => {
+    queueRef.current?.pause(imageId);
+  }, []);
+
+  const handleResumeImage = useCallback((imageId: string) => {
+    updateImage(imageId, { status: 'pending' });
+    queueRef.current?.resume(imageId);
+  }, [updateImage]);
+
+  // Single-image refinements run outside the queue, so they are aborted directly.
+  const handleCancelImage = useCallback((imageId: string) => {
+    const refinement = refinementControllersRef.current.get(imageId);
+    if (refinement) {
+      refinement.abort();
+    } else {
+      queueRef.current?.cancel(imageId);
+    }
+  }, []);
+
+  const handleSkipRemaining = useCallback(() => {
+    const skipped = queueRef.current?.clearWaiting() ?? [];
+    skipped.forEach(id => updateImage(id, { status: 'cancelled', error: 'Skipped: the session budget was reached.', nextRetryAt: null }));
+    setIsBudgetPaused(false);
+  }, [updateImage]);
+
+  // Refines the image's current revision and returns the new revision's URL. With a mask, whatever the
+  // model did outside it is discarded in favour of the current revision.
+  const requestRefinement = useCallback(async (image: ProcessedImage, correction: string, maskUrl: string | null, provider: ImageProvider, signal: AbortSignal) => {
+    const response = await fetch(image.processedUrl!);
+    const blob = await response.blob();
+    const imageFile = new File([blob], "processed_image.png", { type: blob.type });
+
+    const maskFile = maskUrl ? await maskToModelInput(maskUrl) : undefined;
+    const corrected = await provider.correctImage(imageFile, correction, maskFile, signal);
+    recordUsage(image.id, corrected.usage);
+    const resultUrl = maskUrl ? await compositeWithMask(image.processedUrl!, corrected.url, maskUrl) : corrected.url;
+    signal.throwIfAborted();
+    return resultUrl;
+  }, [recordUsage]);
+
+  const handleCorrectImage = async (imageId: string, correction: string, maskUrl: string | null): Promise<boolean> => {
     const imageToCorrect = processedImages.find(p => p.id === imageId);
 
     if (!imageToCorrect || !imageToCorrect.processedUrl) {
         console.error("Could not find image to correct or it has no processed URL.");
         setGlobalError("An internal error occurred while trying to refine the image.");
-        return;
+        return false;
+    }
+
+    const provider = getImageProvider(providerId);
+    if (wouldExceedBudget(provider.model, queueRef.current?.activeJobs() ?? 0)) {
+        setGlobalError(`Refining would go over the session budget of ${formatCost(budgetUsd ?? 0)}. Raise the budget to continue.`);
+        return false;
     }
 
-    setProcessedImages(prev => prev.map(p => p.id === imageId ? { ...p, status: 'processing', error: undefined } : p));
+    updateImage(imageId, { status: 'processing', error: undefined });
+    const controller = new AbortController();
+    refinementControllersRef.current.set(imageId, controller);
     
     try {
-        const response = await fetch(imageToCorrect.processedUrl);
-        const blob = await response.blob();
-        const imageFile = new File([blob], "processed_image.png", { type: blob.type });
-
-        const resultUrl = await correctImage(imageFile, correction);
-
-        setProcessedImages(prev => prev.map(p => p.id === imageId ? { ...p, status: 'done', processedUrl: resultUrl } : p));
+        const resultUrl = await requestRefinement(imageToCorrect, correction, maskUrl, provider, controller.signal);
 
+        // The refinement branches from the revision it was made from, even if the user moved elsewhere meanwhile.
+        updateImage(imageId, p => ({
+            ...addRevision(selectRevision(p, imageToCorrect.currentRevisionId!), resultUrl, 'refined', correction, maskUrl ?? undefined),
+            status: 'done',
+            qualityIssues: undefined,
+        }));
+        return true;
     } catch (error) {
+        if (controller.signal.aborted) {
+            updateImage(imageId, { status: imageToCorrect.status });
+            return false;
+        }
         console.error(`Failed to correct image ${imageToCorrect.originalFile.name}:`, error);
+        recordUsage(imageId, getErrorUsage(error));
         const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-        setProcessedImages(prev => prev.map(p => p.id === imageId ? { ...p, status: 'error', error: errorMessage } : p));
+        // Earlier revisions are still intact, so keep showing them alongside the error.
+        updateImage(imageId, { status: 'done', error: `Refinement failed: ${errorMessage}` });
+        return false;
+    } finally {
+        refinementControllersRef.current.delete(imageId);
     }
   };
 
+  // Sends the same correction for every selected result through the queue, one refined revision each.
+  // Selections hidden by the gallery filters are left out, so only what the user can see is billed.
+  const handleBulkRefine = (correction: string) => {
+    const provider = getImageProvider(providerId);
+    const images = visibleImages.filter(p => selectedImageIds.has(p.id) && isRefinable(p) && !queuedRefinementsRef.current.has(p.id));
+    if (images.length === 0) return;
+
+    images.forEach(image => {
+        queuedRefinementsRef.current.set(image.id, image.status);
+        updateImage(image.id, { status: 'pending', error: undefined });
+    });
+    setSelectedImageIds(new Set());
+    runJobs(images.map(image => ({
+        id: image.id,
+        run: async (_attempt: number, signal: AbortSignal) => {
+            const resultUrl = await requestRefinement(image, correction, null, provider, signal);
+            updateImage(image.id, p => ({
+                ...addRevision(selectRevision(p, image.currentRevisionId!), resultUrl, 'refined', correction),
+                status: 'done',
+                qualityIssues: undefined,
+                error: undefined,
+            }));
+        },
+    })));
+  };
+
+  const handleToggleSelect = useCallback((imageId: string) => {
+    setSelectedImageIds(prev => {
+      const next = new Set(prev);
+      if (!next.delete(imageId)) next.add(imageId);
+      return next;
+    });
+  }, []);
+
+  const getNamingContext = useCallback((image: ProcessedImage): NamingContext => ({
+    sourceName: image.originalFile.name,
+    backgroundName: image.backgroundFile?.name ?? null,
+    stock: getStockNumber(image.originalFile.name, vehiclePattern),
+    modeLabel: promptTemplates.find(t => t.id === image.processingMode)?.label ?? image.processingMode,
+    options: image.processingOptions,
+    index: processedImages.indexOf(image) + 1,
+    total: processedImages.length,
+    date: new Date(getCurrentRevision(image)?.createdAt ?? Date.now()),
+  }), [promptTemplates, processedImages, vehiclePattern]);
+
+  const handleDownloadImage = useCallback(async (imageId: string, profileId: string) => {
+    const image = processedImages.find(p => p.id === imageId);
+    if (!image?.processedUrl) return;
+    try {
+      const profile = findExportProfile(profileId, customExportProfiles);
+      const { blob, filename } = await exportImage(image, profile, outputNaming.filenameTemplate, getNamingContext(image));
+      downloadBlob(blob, filename);
+    } catch (error) {
+      console.error(`Failed to export image ${image.originalFile.name}:`, error);
+      setGlobalError(`Could not export ${image.originalFile.name}.`);
+    }
+  }, [processedImages, customExportProfiles, outputNaming, getNamingContext]);
+
+  // Approving a flagged result also accepts it as-is, clearing the quality warning.
+  const handleReviewImage = useCallback((imageId: string, reviewState: ReviewState) => {
+    updateImage(imageId, p => reviewState === 'approved' && p.status === 'needs-review'
+      ? { ...p, reviewState, status: 'done', qualityIssues: undefined }
+      : { ...p, reviewState, isReference: reviewState === 'approved' ? p.isReference : undefined });
+  }, [updateImage]);
+
+  // Each vehicle has at most one reference, so marking a result unmarks the rest of its set.
+  const handleToggleReference = useCallback((imageId: string) => {
+    const image = processedImages.find(p => p.id === imageId);
+    const stock = image ? getStockNumber(image.originalFile.name, vehiclePattern) : null;
+    if (!image || !stock || image.reviewState !== 'approved') return;
+    setProcessedImages(prev => prev.map(p => {
+      if (p.id === imageId) return { ...p, isReference: p.isReference ? undefined : true };
+      return p.isReference && getStockNumber(p.originalFile.name, vehiclePattern) === stock ? { ...p, isReference: undefined } : p;
+    }));
+  }, [processedImages, vehiclePattern]);
+
+  const handleReviewNoteChange = useCallback((imageId: string, note: string) => {
+    updateImage(imageId, { reviewNote: note || undefined });
+  }, [updateImage]);
+
+  const handleSelectRevision = useCallback((imageId: string, revisionId: string) => {
+    updateImage(imageId, p => ({ ...selectRevision(p, revisionId), error: undefined }));
+  }, [updateImage]);
+
+  // Download All takes approved results only, unless unreviewed ones are included; rejected ones never go out.
+  const isExportable = useCallback((image: ProcessedImage): boolean => image.status === 'done' && !!image.processedUrl
+    && (image.reviewState === 'approved' || (exportUnreviewed && image.reviewState === 'unreviewed')), [exportUnreviewed]);
+
   const handleDownloadAll = async () => {
     if (!window.JSZip) {
       console.error("JSZip library is not loaded.");
@@ -219,31 +1080,58 @@ const App: React.FC = () => {
     }
 
     const zip = new window.JSZip();
-    const successfulImages = processedImages.filter(img => img.status === 'done' && img.processedUrl);
+    const successfulImages = processedImages.filter(isExportable);
   
     if (successfulImages.length === 0) return;
+
+    // With several backdrops the same car produces clashing filenames, so 'auto' gives each background its own folder.
+    const backgroundNames = new Set(successfulImages.map(img => img.backgroundFile?.name ?? ''));
+    const hasSeveralBackgrounds = backgroundNames.size > 1;
   
-    for (const image of successfulImages) {
-      try {
-        const response = await fetch(image.processedUrl!);
-        const blob = await response.blob();
-        const filename = getOutputFilename(image.originalFile.name);
-        zip.file(filename, blob);
-      } catch (error) {
-        console.error(`Failed to fetch and add image ${image.originalFile.name} to zip:`, error);
+    const profile = findExportProfile(exportProfileId, customExportProfiles);
+    const usedPaths = new Set<string>();
+    const manifest: ManifestEntry[] = [];
+    // Every result is listed, including failures, so the manifest accounts for the whole batch.
+    for (const image of processedImages) {
+      const entry: ManifestEntry = {
+        source: image.originalFile.name,
+        background: image.backgroundFile?.name ?? null,
+        output: null,
+        mode: promptTemplates.find(t => t.id === image.processingMode)?.label ?? image.processingMode,
+        options: image.processingOptions,
+        status: image.status,
+        review: image.reviewState,
+        reviewNote: image.reviewNote ?? null,
+        error: image.error ?? null,
+        usage: image.usage ?? null,
+      };
+      if (isExportable(image)) {
+        try {
+          const context = getNamingContext(image);
+          const { blob, filename } = await exportImage(image, profile, outputNaming.filenameTemplate, context);
+          const path = claimUniquePath(`${renderFolder(outputNaming.folderLayout, context, hasSeveralBackgrounds)}${filename}`, usedPaths);
+          zip.file(path, blob);
+          entry.output = path;
+        } catch (error) {
+          console.error(`Failed to fetch and add image ${image.originalFile.name} to zip:`, error);
+          entry.error = `Export failed: ${error instanceof Error ? error.message : "An unknown error occurred."}`;
+        }
       }
+      manifest.push(entry);
     }
+
+    zip.file('manifest.json', JSON.stringify({
+      project: projectName.trim() || DEFAULT_PROJECT_NAME,
+      exportedAt: new Date().toISOString(),
+      exportProfile: profile.name,
+      naming: outputNaming,
+      images: manifest,
+    }, null, 2));
+    zip.file('manifest.csv', buildManifestCsv(manifest));
   
     try {
       const content = await zip.generateAsync({ type: 'blob' });
-      const url = URL.createObjectURL(content);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'autoshade-studio-results.zip';
-      document.body.appendChild(a);
-a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(content, 'autoshade-studio-results.zip');
     } catch (error) {
       console.error("Failed to generate zip file:", error);
       setGlobalError("Failed to generate zip file.");
@@ -252,24 +1140,66 @@ a.click();
   
   const canProcess = useMemo(() => {
     if (isProcessing || carImages.length === 0) return false;
-    if (processingMode === 'tint-turntable-only') return true;
-    return backgroundImage !== null;
-  }, [carImages.length, backgroundImage, isProcessing, processingMode]);
+    if (activeTemplate.id === 'tint-turntable-only' && processingOptions.turntableTint === 'none') return false;
+    return batchPlan.every(plan => plan.backgrounds.length > 0);
+  }, [carImages.length, batchPlan, isProcessing, activeTemplate, processingOptions.turntableTint]);
+
+  const batchSize = batchPlan.reduce((total, plan) => total + plan.backgrounds.length, 0);
+
+  const visibleImages = useMemo(() => applyGalleryView(processedImages, galleryView), [processedImages, galleryView]);
+
+  // Vehicle progress counts every result of the vehicle, not just the ones the filters leave visible.
+  const vehicleProgress = useMemo(() => new Map(
+    groupByVehicle(processedImages, (image: ProcessedImage) => image.originalFile.name, vehiclePattern)
+      .filter(group => group.stock !== null)
+      .map(group => [group.stock!, summarizeProgress(group.items)])
+  ), [processedImages, vehiclePattern]);
+
+  // In batch order results are shown per vehicle, and photos outside the vehicle pattern per car, with
+  // one card for each background a car was placed on. Other sorts would scatter the sets anyway, so
+  // they are shown as one flat list.
+  const resultGroups = useMemo(() => {
+    if (galleryView.sort !== 'batch') {
+      return [{ key: 'all', title: null, isVehicle: false, progress: null, images: visibleImages }];
+    }
+    return groupByVehicle(visibleImages, (image: ProcessedImage) => image.originalFile.name, vehiclePattern).flatMap(group => {
+      if (group.stock !== null) {
+        const progress = vehicleProgress.get(group.stock) ?? summarizeProgress(group.items);
+        return [{ key: `vehicle-${group.stock}`, title: group.stock, isVehicle: true, progress, images: group.items }];
+      }
+      const cars = new Map<File, ProcessedImage[]>();
+      for (const image of group.items) {
+        cars.set(image.originalFile, [...(cars.get(image.originalFile) ?? []), image]);
+      }
+      return Array.from(cars, ([file, images]) => ({
+        key: `${file.name}-${file.lastModified}`,
+        title: file.name,
+        isVehicle: false,
+        progress: images.length > 1 ? summarizeProgress(images) : null,
+        images,
+      }));
+    });
+  }, [visibleImages, galleryView.sort, vehiclePattern, vehicleProgress]);
+
+  const handleOpenLightbox = useCallback((imageId: string) => {
+    setLightboxIndex(visibleImages.findIndex(image => image.id === imageId));
+  }, [visibleImages]);
+
+  const namingExample = useMemo(() => processedImages.length > 0 ? getNamingContext(processedImages[0]) : null, [processedImages, getNamingContext]);
 
-  const hasSuccessfulProcessedImages = useMemo(() => processedImages.some(img => img.status === 'done'), [processedImages]);
+  const resultsUsage = useMemo(() => processedImages.reduce((total, image) => addUsage(total, image.usage), EMPTY_USAGE), [processedImages]);
 
-  const floorEffectOptions: { id: FloorEffect, label: string }[] = [
-    { id: 'none', label: 'None' },
-    { id: 'desaturate', label: 'Desaturate (B&W)' },
-    { id: 'red', label: 'Red Tint (15%)' },
-    { id: 'yellow', label: 'Yellow Tint (15%)' },
-  ];
+  const refinableImageIds = useMemo(() => processedImages.filter(isRefinable).map(image => image.id), [processedImages]);
+  // "Select all" and the selected count only cover the results the gallery filters leave visible.
+  const visibleRefinableIds = useMemo(() => visibleImages.filter(isRefinable).map(image => image.id), [visibleImages]);
+  const selectedRefinableCount = visibleRefinableIds.filter(id => selectedImageIds.has(id)).length;
 
-  const turntableTintOptions: { id: TurntableTint, label: string }[] = [
-    { id: 'none', label: 'None' },
-    { id: 'red', label: 'Red Tint (15%)' },
-    { id: 'yellow', label: 'Yellow Tint (15%)' },
-  ];
+  const failedCount = useMemo(() => processedImages.filter(img => img.status === 'error').length, [processedImages]);
+
+  const exportableCount = useMemo(() => processedImages.filter(isExportable).length, [processedImages, isExportable]);
+
+  const approvedCount = useMemo(() => processedImages.filter(img => img.reviewState === 'approved').length, [processedImages]);
+  const rejectedCount = useMemo(() => processedImages.filter(img => img.reviewState === 'rejected').length, [processedImages]);
 
   return (
     <div className="min-h-screen bg-gray-900 text-white font-sans">
@@ -277,7 +1207,7 @@ a.click();
         <FullScreenDropzone
           onClose={() => setIsDragging(false)}
           onCarImagesDropped={handleCarImagesSelected}
-          onBackgroundImageDropped={handleBackgroundImageSelected}
+          onBackgroundImageDropped={handleBackgroundImagesSelected}
         />
       )}
       <main className="container mx-auto px-4 py-8 md:py-12">
@@ -290,7 +1220,30 @@ a.click();
           </p>
         </header>
 
+        <ProjectPanel
+          projectId={projectId}
+          projectName={projectName}
+          saveState={saveState}
+          projects={projects}
+          onRename={setProjectName}
+          onShowProjects={refreshProjects}
+          onOpen={handleOpenProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onNew={handleNewProject}
+          disabled={isProcessing || isRestoring}
+        />
+
         <div className="max-w-4xl mx-auto bg-gray-800/50 rounded-xl shadow-2xl p-6 md:p-8 space-y-8 border border-gray-700">
+            <PresetBar
+              presets={presets}
+              onApply={handleApplyPreset}
+              onSave={handleSavePreset}
+              onExport={handleExportPreset}
+              onImport={handleImportPresets}
+              onDelete={handleDeletePreset}
+              disabled={isProcessing}
+            />
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                  <div>
                     <h2 className="text-lg font-semibold text-gray-200 mb-3 flex items-center"><Icon icon="car" className="w-5 h-5 mr-2 text-blue-400"/>1. Upload Car Images</h2>
@@ -304,11 +1257,12 @@ a.click();
                  <div className="relative">
                     <h2 className="text-lg font-semibold text-gray-200 mb-3 flex items-center"><Icon icon="image" className="w-5 h-5 mr-2 text-blue-400"/>2. Upload Background</h2>
                     <ImageUploader 
-                        label="Select Background Image"
+                        label="Select Background Images"
                         IconComponent={<Icon icon="upload" />}
-                        onFilesSelected={handleBackgroundImageSelected}
+                        onFilesSelected={handleBackgroundImagesSelected}
+                        multiple
                     />
-                    {processingMode === 'tint-turntable-only' && (
+                    {!activeTemplate.requiresBackground && (
                        <div className="absolute inset-0 bg-gray-800/80 backdrop-blur-sm rounded-lg flex items-center justify-center text-center p-4">
                            <p className="text-gray-400 font-semibold">Background not required for this mode.</p>
                        </div>
@@ -316,7 +1270,19 @@ a.click();
                  </div>
             </div>
 
-            {(carImagePreviews.length > 0 || backgroundPreview) && (
+            {ingestingTitle && (
+              <p className="text-sm text-gray-400 animate-pulse">Preparing {ingestingTitle.toLowerCase()}...</p>
+            )}
+            {uploadReport && !ingestingTitle && (
+              <UploadReport
+                key={uploadReport.id}
+                title={uploadReport.title}
+                entries={uploadReport.entries}
+                onDismiss={() => setUploadReport(null)}
+              />
+            )}
+
+            {(carImagePreviews.length > 0 || backgroundPreviews.length > 0) && (
               <div className="space-y-4">
                 <h3 className="text-md font-semibold text-gray-300">Your Selection</h3>
                 {carImagePreviews.length > 0 && (
@@ -327,7 +1293,7 @@ a.click();
                      </div>
                      <div className="flex space-x-3 overflow-x-auto pb-2 -mx-2 px-2">
                        {carImagePreviews.map((preview) => (
-                         <div key={preview.file.name + preview.file.lastModified} className="relative flex-shrink-0 w-24 h-24 bg-gray-700 rounded-md overflow-hidden group">
+                         <div key={preview.url} className="relative flex-shrink-0 w-24 h-24 bg-gray-700 rounded-md overflow-hidden group">
                            <img src={preview.url} alt={preview.file.name} className="w-full h-full object-cover" />
                            <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-50 transition-opacity duration-200 flex items-center justify-center">
                               <button onClick={() => handleRemoveCarImage(preview.file)} disabled={isProcessing} className="absolute top-1 right-1 bg-gray-900/70 rounded-full p-0.5 text-white opacity-0 group-hover:opacity-100 disabled:hidden">
@@ -339,111 +1305,73 @@ a.click();
                      </div>
                    </div>
                 )}
-                {backgroundPreview && processingMode !== 'tint-turntable-only' && (
+                {backgroundPreviews.length > 0 && activeTemplate.requiresBackground && (
                   <div>
-                    <p className="text-sm text-gray-400 mb-2">Background Image</p>
-                    <div className="relative w-32 h-32 bg-gray-700 rounded-md overflow-hidden group">
-                        <img src={backgroundPreview.url} alt={backgroundPreview.file.name} className="w-full h-full object-cover" />
-                        <button onClick={handleRemoveBackgroundImage} disabled={isProcessing} className="absolute top-1 right-1 bg-gray-900/70 rounded-full p-1 text-white opacity-0 group-hover:opacity-100 disabled:hidden">
-                          <Icon icon="close" className="w-4 h-4" />
-                        </button>
+                    <div className="flex justify-between items-center mb-2">
+                      <p className="text-sm text-gray-400">Background Images ({backgroundPreviews.length})</p>
+                      <button onClick={() => setBackgroundImages([])} disabled={isProcessing} className="text-xs text-red-400 hover:text-red-300 disabled:opacity-50 disabled:cursor-not-allowed">Clear all</button>
+                    </div>
+                    <div className="flex space-x-3 overflow-x-auto pb-2 -mx-2 px-2">
+                      {backgroundPreviews.map((preview) => (
+                        <div key={preview.url} className="relative flex-shrink-0 w-32 h-32 bg-gray-700 rounded-md overflow-hidden group" title={preview.file.name}>
+                            <img src={preview.url} alt={preview.file.name} className="w-full h-full object-cover" />
+                            <button onClick={() => handleRemoveBackgroundImage(preview.file)} disabled={isProcessing} className="absolute top-1 right-1 bg-gray-900/70 rounded-full p-1 text-white opacity-0 group-hover:opacity-100 disabled:hidden">
+                              <Icon icon="close" className="w-4 h-4" />
+                            </button>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 )}
               </div>
             )}
             
+            {carImages.length > 0 && (
+              <VehicleGroupsPanel
+                pattern={vehiclePattern}
+                onPatternChange={setVehiclePattern}
+                carImages={carImages}
+                backgroundImages={backgroundImages}
+                presets={presets}
+                overrides={vehicleOverrides}
+                onOverrideChange={handleVehicleOverrideChange}
+                disabled={isProcessing}
+              />
+            )}
+
             <div>
               <h2 className="text-lg font-semibold text-gray-200 mb-3 flex items-center">
                 <Icon icon="sparkles" className="w-5 h-5 mr-2 text-blue-400" />
                 3. Choose Processing Mode
               </h2>
-              <div className="grid grid-cols-1 gap-4">
-                {/* Full Background Replacement */}
-                <div className={`p-4 rounded-lg border-2 transition-all ${processingMode === 'full' ? 'border-blue-500 bg-blue-900/50' : 'border-gray-600 bg-gray-700/50 hover:border-gray-500'}`}>
-                  <label className="cursor-pointer">
-                    <input type="radio" name="processing-mode" value="full" checked={processingMode === 'full'} onChange={() => setProcessingMode('full')} className="sr-only" disabled={isProcessing} aria-label="Full Background Replacement" />
-                    <div className="font-semibold text-white">Full Background Replacement</div>
-                    <p className="text-sm text-gray-400 mt-1">Replaces the entire background with the new image. Ideal for any scene.</p>
+              <ModeSelector
+                templates={promptTemplates}
+                processingMode={processingMode}
+                onModeChange={setProcessingMode}
+                options={processingOptions}
+                onOptionsChange={handleOptionsChange}
+                onAddCustomMode={handleAddCustomMode}
+                onDeleteCustomMode={handleDeleteCustomMode}
+                disabled={isProcessing}
+              />
+              {activeTemplate.id === 'tint-turntable-only' && (
+                <div className="mt-4 p-4 rounded-lg border border-gray-600 bg-gray-700/30 space-y-3">
+                  <label className="flex items-center space-x-3 cursor-pointer group">
+                    <input type="checkbox" checked={localTurntableTint} onChange={(e) => setLocalTurntableTint(e.target.checked)} disabled={isProcessing} className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2" />
+                    <span className="text-sm text-gray-300 group-hover:text-white">Tint locally with a turntable mask (no API calls, everything outside the mask stays pixel-identical)</span>
                   </label>
-                </div>
-                {/* Partial Wall Replacement */}
-                 <div className={`p-4 rounded-lg border-2 transition-all ${processingMode === 'partial-wall' ? 'border-blue-500 bg-blue-900/50' : 'border-gray-600 bg-gray-700/50 hover:border-gray-500'}`}>
-                  <label className="cursor-pointer">
-                    <input type="radio" name="processing-mode" value="partial-wall" checked={processingMode === 'partial-wall'} onChange={() => setProcessingMode('partial-wall')} className="sr-only" disabled={isProcessing} aria-label="Partial Wall Replacement" />
-                    <div className="font-semibold text-white">Partial Wall Replacement</div>
-                    <p className="text-sm text-gray-400 mt-1">Replaces only the wall/background, keeping the original studio floor.</p>
-                  </label>
-                  {processingMode === 'partial-wall' && (
-                    <div className="mt-4 pt-4 border-t border-blue-500/30 space-y-4 animate-fade-in">
-                        <div>
-                            <h4 className="text-sm font-semibold text-gray-300 mb-2">Floor Effect</h4>
-                            <div className="flex flex-wrap gap-2">
-                                {floorEffectOptions.map(option => (
-                                    <label key={option.id} className={`px-3 py-1.5 rounded-md text-sm cursor-pointer transition-all text-center ${floorEffect === option.id ? 'bg-blue-600 text-white font-semibold' : 'bg-gray-600 hover:bg-gray-500 text-gray-300'}`}>
-                                        <input type="radio" name="floor-effect" value={option.id} checked={floorEffect === option.id} onChange={() => setFloorEffect(option.id as FloorEffect)} className="sr-only" disabled={isProcessing} aria-label={option.label}/>
-                                        {option.label}
-                                    </label>
-                                ))}
-                            </div>
-                        </div>
-                        <div>
-                           <h4 className="text-sm font-semibold text-gray-300 mb-2">Reflections</h4>
-                            <label className="flex items-center space-x-3 cursor-pointer group p-2 -m-2 rounded-md hover:bg-gray-700/50">
-                            <input type="checkbox" checked={matchReflections} onChange={(e) => setMatchReflections(e.target.checked)} disabled={isProcessing} className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2" />
-                            <span className="text-sm text-gray-300 group-hover:text-white">Match Car Reflections to Background</span>
-                            </label>
-                        </div>
-                    </div>
+                  {localTurntableTint && (
+                    <TurntableMaskEditor
+                      images={carImages}
+                      ellipse={turntableMask}
+                      onChange={setTurntableMask}
+                      tintColor={processingOptions.turntableTint === 'tint' ? processingOptions.turntableTintColor : null}
+                      tintOpacity={processingOptions.turntableTintOpacity / 100}
+                      disabled={isProcessing}
+                    />
                   )}
-                 </div>
-                 {/* Turntable Isolate & Tint */}
-                <div className={`p-4 rounded-lg border-2 transition-all ${processingMode === 'turntable-tint' ? 'border-blue-500 bg-blue-900/50' : 'border-gray-600 bg-gray-700/50 hover:border-gray-500'}`}>
-                    <label className="cursor-pointer">
-                        <input type="radio" name="processing-mode" value="turntable-tint" checked={processingMode === 'turntable-tint'} onChange={() => setProcessingMode('turntable-tint')} className="sr-only" disabled={isProcessing} aria-label="Turntable Isolate & Tint"/>
-                        <div className="font-semibold text-white">Turntable Isolate & Tint</div>
-                        <p className="text-sm text-gray-400 mt-1">Keeps only the car and turntable, replacing all other scenery. Good for turntable shots.</p>
-                    </label>
-                    {processingMode === 'turntable-tint' && (
-                        <div className="mt-4 pt-4 border-t border-blue-500/30 space-y-4 animate-fade-in">
-                            <div>
-                                <h4 className="text-sm font-semibold text-gray-300 mb-2">Turntable Tint</h4>
-                                <div className="flex flex-wrap gap-2">
-                                    {turntableTintOptions.map(option => (
-                                        <label key={option.id} className={`px-3 py-1.5 rounded-md text-sm cursor-pointer transition-all text-center ${turntableTint === option.id ? 'bg-blue-600 text-white font-semibold' : 'bg-gray-600 hover:bg-gray-500 text-gray-300'}`}>
-                                            <input type="radio" name="turntable-tint" value={option.id} checked={turntableTint === option.id} onChange={() => setTurntableTint(option.id as TurntableTint)} className="sr-only" disabled={isProcessing} aria-label={option.label}/>
-                                            {option.label}
-                                        </label>
-                                    ))}
-                                </div>
-                            </div>
-                        </div>
-                    )}
                 </div>
-                {/* Tint Turntable Only */}
-                <div className={`p-4 rounded-lg border-2 transition-all ${processingMode === 'tint-turntable-only' ? 'border-blue-500 bg-blue-900/50' : 'border-gray-600 bg-gray-700/50 hover:border-gray-500'}`}>
-                    <label className="cursor-pointer">
-                        <input type="radio" name="processing-mode" value="tint-turntable-only" checked={processingMode === 'tint-turntable-only'} onChange={() => setProcessingMode('tint-turntable-only')} className="sr-only" disabled={isProcessing} aria-label="Tint Turntable Only"/>
-                        <div className="font-semibold text-white">Tint Turntable Only</div>
-                        <p className="text-sm text-gray-400 mt-1">Applies a color tint to the turntable only, leaving the car and original background unchanged.</p>
-                    </label>
-                    {processingMode === 'tint-turntable-only' && (
-                        <div className="mt-4 pt-4 border-t border-blue-500/30 space-y-4 animate-fade-in">
-                            <div>
-                                <h4 className="text-sm font-semibold text-gray-300 mb-2">Turntable Tint</h4>
-                                <div className="flex flex-wrap gap-2">
-                                    {turntableTintOptions.map(option => (
-                                        <label key={option.id} className={`px-3 py-1.5 rounded-md text-sm cursor-pointer transition-all text-center ${turntableTint === option.id ? 'bg-blue-600 text-white font-semibold' : 'bg-gray-600 hover:bg-gray-500 text-gray-300'}`}>
-                                            <input type="radio" name="turntable-tint" value={option.id} checked={turntableTint === option.id} onChange={() => setTurntableTint(option.id as TurntableTint)} className="sr-only" disabled={isProcessing || option.id === 'none'} aria-label={option.label}/>
-                                            {option.label}
-                                        </label>
-                                    ))}
-                                </div>
-                            </div>
-                        </div>
-                    )}
-                </div>
-              </div>
+              )}
             </div>
 
             <div className="flex flex-col md:flex-row md:items-center gap-4 pt-4 border-t border-gray-700">
@@ -453,21 +1381,99 @@ a.click();
                         <p className="text-xl font-bold">{carImages.length}</p>
                     </div>
                     <div className="bg-gray-700/50 p-3 rounded-lg text-center">
-                        <p className="text-sm text-gray-400">Background</p>
-                        {processingMode === 'tint-turntable-only' ? (
+                        <p className="text-sm text-gray-400">Backgrounds</p>
+                        {!activeTemplate.requiresBackground ? (
                             <p className="text-xl font-bold text-gray-500">Not Required</p>
                         ) : (
-                            <p className={`text-xl font-bold ${backgroundImage ? 'text-green-400' : ''}`}>{backgroundImage ? 'Ready' : 'None'}</p>
+                            <p className={`text-xl font-bold ${backgroundImages.length > 0 ? 'text-green-400' : ''}`}>{backgroundImages.length > 0 ? `${backgroundImages.length} Ready` : 'None'}</p>
                         )}
 
                     </div>
                 </div>
+                <label className="flex flex-col items-center text-sm text-gray-400">
+                    Provider
+                    <select
+                        value={providerId}
+                        onChange={(e) => setProviderId(e.target.value as ImageProviderId)}
+                        disabled={isProcessing}
+                        title={getImageProvider(providerId).description}
+                        className="mt-1 bg-gray-900 border border-gray-600 text-white rounded-md p-1.5 focus:ring-blue-500 focus:border-blue-500"
+                    >
+                        {IMAGE_PROVIDERS.map(provider => (
+                            <option key={provider.id} value={provider.id}>{provider.label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex flex-col items-center text-sm text-gray-400">
+                    Parallel requests
+                    <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        value={concurrency}
+                        onChange={(e) => setConcurrency(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                        disabled={isProcessing}
+                        className="mt-1 w-20 bg-gray-900 border border-gray-600 text-white text-center rounded-md p-1.5 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer md:max-w-[9rem]" title={`Results that look cropped, tiny, blank or unchanged are regenerated up to ${MAX_QUALITY_RERUNS} times before being flagged for review.`}>
+                    <input
+                        type="checkbox"
+                        checked={autoRerunFlagged}
+                        onChange={(e) => setAutoRerunFlagged(e.target.checked)}
+                        disabled={isProcessing}
+                        className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2"
+                    />
+                    Re-run flagged results
+                </label>
                 <Button onClick={handleProcessImages} disabled={!canProcess} isLoading={isProcessing} className="w-full md:w-auto">
                     <Icon icon="sparkles" className="w-5 h-5 mr-2" />
-                    {isProcessing ? 'Generating...' : `Generate ${carImages.length > 0 ? carImages.length : ''} Image${carImages.length !== 1 ? 's' : ''}`}
+                    {isProcessing ? (isBatchPaused ? 'Paused' : 'Generating...') : `Generate ${batchSize > 0 ? batchSize : ''} Image${batchSize !== 1 ? 's' : ''}`}
                 </Button>
+                {isProcessing && (
+                    <div className="flex gap-2 justify-center">
+                        <button onClick={isBatchPaused ? handleResumeQueue : handlePauseBatch} className="text-sm px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200" title={isBatchPaused ? undefined : 'Requests already running finish; nothing new starts.'}>
+                            {isBatchPaused ? 'Resume' : 'Pause'}
+                        </button>
+                        <button onClick={handleCancelBatch} className="text-sm px-3 py-2 rounded-md bg-gray-700 hover:bg-red-700 text-gray-200">
+                            Cancel
+                        </button>
+                    </div>
+                )}
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-400">
+                <p>
+                    Session spend: <span className="font-semibold text-gray-200">{formatCost(sessionUsage.costUsd)}</span> estimated
+                    {' '}({sessionUsage.calls} call{sessionUsage.calls !== 1 ? 's' : ''}, {sessionUsage.totalTokens.toLocaleString()} tokens)
+                    {sessionUsage.calls > 0 && (
+                        <button onClick={handleResetSessionUsage} disabled={isProcessing} className="ml-2 text-xs text-gray-500 hover:text-gray-300 underline disabled:opacity-50 disabled:cursor-not-allowed">Reset</button>
+                    )}
+                </p>
+                <label className="flex items-center gap-2" title="The queue pauses before a request that could take the session spend past this amount.">
+                    Budget (USD)
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        value={budgetUsd ?? ''}
+                        placeholder="No limit"
+                        onChange={(e) => setBudgetUsd(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+                        className="w-24 bg-gray-900 border border-gray-600 text-white text-center rounded-md p-1 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                </label>
             </div>
 
+            {isBudgetPaused && (
+              <div className="bg-yellow-900/40 border border-yellow-700 text-yellow-200 px-4 py-3 rounded-md text-sm flex flex-wrap items-center justify-between gap-3">
+                <span>Paused: the next request could take the session past its{budgetUsd !== null ? ` ${formatCost(budgetUsd)}` : ''} budget. Raise the budget and resume, or skip the remaining images.</span>
+                <div className="flex gap-2">
+                  <button onClick={handleResumeQueue} className="text-xs px-2 py-1 rounded bg-yellow-700 hover:bg-yellow-600 text-white">Resume</button>
+                  <button onClick={handleSkipRemaining} className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Skip remaining</button>
+                </div>
+              </div>
+            )}
+
             {globalError && (
               <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-md text-sm text-center">
                 {globalError}
@@ -478,25 +1484,159 @@ a.click();
         {processedImages.length > 0 && (
           <div className="mt-12">
             <div className="flex justify-between items-center mb-8">
-              <h2 className="text-2xl font-bold">Results</h2>
-              <Button onClick={handleDownloadAll} disabled={!hasSuccessfulProcessedImages || isProcessing}>
-                  <Icon icon="download" className="w-5 h-5 mr-2" />
-                  Download All (.zip)
-              </Button>
-            </div>
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {processedImages.map((image) => (
-                <ImageCard 
-                    key={image.id} 
-                    image={image} 
-                    getOutputFilename={getOutputFilename}
-                    onCorrect={handleCorrectImage}
+              <div>
+                <h2 className="text-2xl font-bold">Results</h2>
+                <p className="text-sm text-gray-300 mt-1">
+                  {approvedCount}/{processedImages.length} approved
+                  {rejectedCount > 0 && <span className="text-gray-500">, {rejectedCount} rejected</span>}
+                </p>
+                {resultsUsage.calls > 0 && (
+                  <p className="text-sm text-gray-400 mt-1">
+                    {formatCost(resultsUsage.costUsd)} estimated across {resultsUsage.calls} call{resultsUsage.calls !== 1 ? 's' : ''}, {resultsUsage.totalTokens.toLocaleString()} tokens
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer max-w-[10rem]" title="By default a retry uses the mode and options the result was first generated with.">
+                  <input
+                    type="checkbox"
+                    checked={retryWithCurrentSettings}
+                    onChange={(e) => setRetryWithCurrentSettings(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2"
+                  />
+                  Retry with current mode and options
+                </label>
+                {failedCount > 0 && (
+                  <button onClick={handleRetryFailed} className="text-sm px-3 py-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200">
+                    Retry all failed ({failedCount})
+                  </button>
+                )}
+                <ExportProfilePicker
+                  profiles={exportProfiles}
+                  selectedProfileId={exportProfileId}
+                  onSelect={setExportProfileId}
+                  onAddProfile={handleAddExportProfile}
+                  onDeleteProfile={handleDeleteExportProfile}
+                  disabled={isProcessing}
+                />
+                <OutputNamingPicker
+                  naming={outputNaming}
+                  onChange={setOutputNaming}
+                  example={namingExample}
+                  disabled={isProcessing}
                 />
+                <label className="flex items-center gap-2 text-xs text-gray-400 cursor-pointer max-w-[8rem]" title="Rejected results are never exported.">
+                  <input
+                    type="checkbox"
+                    checked={exportUnreviewed}
+                    onChange={(e) => setExportUnreviewed(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2"
+                  />
+                  Include unreviewed
+                </label>
+                <Button onClick={handleDownloadAll} disabled={exportableCount === 0 || isProcessing}>
+                    <Icon icon="download" className="w-5 h-5 mr-2" />
+                    {exportUnreviewed ? 'Download All' : 'Download Approved'} ({exportableCount})
+                </Button>
+              </div>
+            </div>
+            {refinableImageIds.length > 0 && (
+              <BulkRefineBar
+                selectedCount={selectedRefinableCount}
+                selectableCount={visibleRefinableIds.length}
+                allSelected={visibleRefinableIds.every(id => selectedImageIds.has(id))}
+                onSelectAll={() => setSelectedImageIds(new Set(visibleRefinableIds))}
+                onClearSelection={() => setSelectedImageIds(new Set())}
+                onRefine={handleBulkRefine}
+              />
+            )}
+            <GalleryToolbar
+              view={galleryView}
+              onChange={setGalleryView}
+              images={processedImages}
+              visibleCount={visibleImages.length}
+            />
+            {visibleImages.length === 0 && (
+              <p className="text-center text-gray-500 py-10">No results match the current filters.</p>
+            )}
+            <div className="space-y-10">
+              {resultGroups.map(group => (
+                <section key={group.key}>
+                  {group.title && group.progress && (
+                    <div className="mb-4">
+                      <h3 className="text-lg font-semibold text-gray-300 truncate" title={group.title}>
+                        {group.isVehicle && <span className="text-sm font-normal text-gray-500 mr-2">Stock</span>}
+                        {group.title}
+                        <span className="ml-2 text-sm font-normal text-gray-500">
+                          {group.progress.done}/{group.progress.total} done
+                          {group.progress.approved > 0 && `, ${group.progress.approved} approved`}
+                          {group.progress.toReview > 0 && `, ${group.progress.toReview} to review`}
+                        </span>
+                      </h3>
+                      {group.isVehicle && (
+                        <div className="mt-2 h-1 rounded bg-gray-700 overflow-hidden">
+                          <div className="h-full bg-green-500 transition-all" style={{ width: `${(group.progress.done / group.progress.total) * 100}%` }} />
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  {galleryView.density === 'list' ? (
+                    <div className="space-y-2">
+                      {group.images.map(image => (
+                        <ResultRow
+                          key={image.id}
+                          image={image}
+                          onOpen={handleOpenLightbox}
+                          isSelected={selectedImageIds.has(image.id)}
+                          onToggleSelect={handleToggleSelect}
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                      {group.images.map((image) => (
+                        <ImageCard 
+                            key={image.id} 
+                            image={image} 
+                            exportProfiles={exportProfiles}
+                            exportProfileId={exportProfileId}
+                            onDownload={handleDownloadImage}
+                            onCorrect={handleCorrectImage}
+                            onSelectRevision={handleSelectRevision}
+                            onReview={handleReviewImage}
+                            onReviewNoteChange={handleReviewNoteChange}
+                            canBeReference={image.reviewState === 'approved' && getStockNumber(image.originalFile.name, vehiclePattern) !== null}
+                            onToggleReference={handleToggleReference}
+                            onPause={handlePauseImage}
+                            onResume={handleResumeImage}
+                            onCancel={handleCancelImage}
+                            onRetry={handleRetryImage}
+                            isSelected={selectedImageIds.has(image.id)}
+                            onToggleSelect={handleToggleSelect}
+                            onOpen={handleOpenLightbox}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </section>
               ))}
             </div>
           </div>
         )}
       </main>
+      {lightboxIndex !== null && visibleImages.length > 0 && (
+        <Lightbox
+          images={visibleImages}
+          index={Math.min(lightboxIndex, visibleImages.length - 1)}
+          onIndexChange={setLightboxIndex}
+          onClose={() => setLightboxIndex(null)}
+          onReview={handleReviewImage}
+          onReviewNoteChange={handleReviewNoteChange}
+          onRefine={(imageId, prompt) => handleCorrectImage(imageId, prompt, null)}
+          onRetry={handleRetryImage}
+          onDownload={(imageId) => handleDownloadImage(imageId, exportProfileId)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,334 @@
+import { existsSync } from 'node:fs';
+import { mkdir, readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ApiUsage, ProcessingMode, ProcessingOptions, PromptTemplate } from '../types';
+import { GEMINI_IMAGE_MODEL, processCarImage } from '../services/geminiService';
+import { BUILT_IN_PROMPT_TEMPLATES, DEFAULT_PROCESSING_OPTIONS, getPromptTemplate, normalizeProcessingOptions, parseCustomPromptTemplate } from '../services/promptRegistry';
+import { createJobQueue, DEFAULT_QUEUE_OPTIONS } from '../services/jobQueue';
+import { getExtensionForMimeType } from '../services/exportProfiles';
+import { claimUniquePath, DEFAULT_OUTPUT_NAMING, renderFilename } from '../services/outputNaming';
+import { DEFAULT_VEHICLE_PATTERN, getStockNumber, isValidVehiclePattern } from '../services/vehicles';
+import { addUsage, EMPTY_USAGE, estimateCallCost, formatCost, getErrorUsage } from '../services/usage';
+import { isCssColor } from './cssColors';
+
+const REPORT_FILENAME = 'autoshade-report.json';
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+const USAGE = `Usage: npm run cli -- --input <folder> --output <folder> [options]
+
+Processes every JPEG, PNG and WebP image in the input folder with Gemini and writes the
+results and ${REPORT_FILENAME} to the output folder. Runs resume: images already processed
+with the same mode, options and background are skipped unless --force is given.
+
+Options:
+  --input <folder>          Folder of car images (required)
+  --output <folder>         Folder for results and the report (required)
+  --background <file>       Background image, for modes that need one
+  --mode <mode>             ${BUILT_IN_PROMPT_TEMPLATES.map(t => t.id).join(' | ')} (default: full)
+  --template <file>         JSON custom mode (id starting with custom:) to use instead of --mode
+  --floor-effect <effect>   none | desaturate | a tint colour such as red or #c8102e (default: none)
+  --floor-opacity <pct>     Floor tint opacity, 1-100 (default: ${DEFAULT_PROCESSING_OPTIONS.floorTintOpacity})
+  --match-reflections       Match reflections to the new background
+  --turntable-tint <tint>   none | a tint colour (default: none)
+  --turntable-opacity <pct> Turntable tint opacity, 1-100 (default: ${DEFAULT_PROCESSING_OPTIONS.turntableTintOpacity})
+  --name <template>         Output filename template (default: ${DEFAULT_OUTPUT_NAMING.filenameTemplate})
+  --vehicle-pattern <p>     How {stock} in --name is read from filenames (default: ${DEFAULT_VEHICLE_PATTERN})
+  --concurrency <n>         Parallel requests (default: ${DEFAULT_QUEUE_OPTIONS.concurrency})
+  --budget <usd>            Stop starting requests that could take this run's estimated spend past the amount
+  --force                   Reprocess images that already have a result
+  --help                    Show this message
+
+Set GEMINI_API_KEY (or API_KEY) in the environment. Exits with code 1 if any image fails or is
+left for a later run by --budget.`;
+
+interface ReportEntry {
+  source: string;
+  output: string | null;
+  status: 'done' | 'error';
+  error: string | null;
+  attempts: number;
+  mode: ProcessingMode;
+  options: ProcessingOptions;
+  background: string | null;
+  // Every billed call for the image in the run that produced this entry, retries included.
+  usage: ApiUsage;
+  finishedAt: string;
+}
+
+interface Report {
+  startedAt: string;
+  finishedAt: string | null;
+  images: Record<string, ReportEntry>;
+}
+
+class UsageError extends Error {}
+
+const parseChoice = <T extends string>(value: string | undefined, choices: T[], flag: string, fallback: T): T => {
+  if (value === undefined) return fallback;
+  if (!(choices as string[]).includes(value)) {
+    throw new UsageError(`${flag} must be one of: ${choices.join(', ')}.`);
+  }
+  return value as T;
+};
+
+const parseOpacity = (value: string | undefined, flag: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const opacity = Number(value);
+  if (!Number.isFinite(opacity) || opacity < 1 || opacity > 100) {
+    throw new UsageError(`${flag} must be a percentage between 1 and 100.`);
+  }
+  return opacity;
+};
+
+const parseTint = (value: string, keywords: string[], flag: string): string => {
+  if (!keywords.includes(value) && !isCssColor(value)) {
+    throw new UsageError(`${flag} must be ${keywords.join(', ')} or a CSS colour such as red or #c8102e.`);
+  }
+  return value;
+};
+
+const readImageFile = async (filePath: string): Promise<File> => {
+  const type = MIME_TYPES[path.extname(filePath).toLowerCase()];
+  if (!type) {
+    throw new UsageError(`${filePath} is not a JPEG, PNG or WebP image.`);
+  }
+  return new File([await readFile(filePath)], path.basename(filePath), { type });
+};
+
+const loadTemplate = async (templatePath: string | undefined, mode: string | undefined): Promise<PromptTemplate> => {
+  if (templatePath) {
+    // Checked the way the app checks imported custom modes, so a malformed file fails before any request.
+    try {
+      return parseCustomPromptTemplate(JSON.parse(await readFile(templatePath, 'utf8')));
+    } catch (error) {
+      const reason = error instanceof SyntaxError ? 'it is not valid JSON' : error instanceof Error ? error.message : String(error);
+      throw new UsageError(`${templatePath} is not a usable prompt template: ${reason}`);
+    }
+  }
+  const builtInIds = BUILT_IN_PROMPT_TEMPLATES.map(t => t.id);
+  return getPromptTemplate(parseChoice(mode, builtInIds, '--mode', 'full'));
+};
+
+const loadReport = async (reportPath: string): Promise<Report> => {
+  if (!existsSync(reportPath)) {
+    return { startedAt: new Date().toISOString(), finishedAt: null, images: {} };
+  }
+  const report = JSON.parse(await readFile(reportPath, 'utf8')) as Report;
+  return { ...report, finishedAt: null };
+};
+
+// Written to a temporary file first so an interrupted run never leaves a truncated report behind.
+const writeReport = async (reportPath: string, report: Report) => {
+  await writeFile(`${reportPath}.tmp`, JSON.stringify(report, null, 2));
+  await rename(`${reportPath}.tmp`, reportPath);
+};
+
+const isSameRun = (entry: ReportEntry, mode: ProcessingMode, options: ProcessingOptions, background: string | null) =>
+  entry.mode === mode && entry.background === background
+  && JSON.stringify(normalizeProcessingOptions(entry.options)) === JSON.stringify(normalizeProcessingOptions(options));
+
+const run = async (): Promise<number> => {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string' },
+      output: { type: 'string' },
+      background: { type: 'string' },
+      mode: { type: 'string' },
+      template: { type: 'string' },
+      'floor-effect': { type: 'string', default: 'none' },
+      'floor-opacity': { type: 'string' },
+      'match-reflections': { type: 'boolean', default: false },
+      'turntable-tint': { type: 'string', default: 'none' },
+      'turntable-opacity': { type: 'string' },
+      name: { type: 'string', default: DEFAULT_OUTPUT_NAMING.filenameTemplate },
+      'vehicle-pattern': { type: 'string', default: DEFAULT_VEHICLE_PATTERN },
+      concurrency: { type: 'string' },
+      budget: { type: 'string' },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!values.input || !values.output) {
+    throw new UsageError('--input and --output are required.');
+  }
+
+  process.env.API_KEY ??= process.env.GEMINI_API_KEY;
+  if (!process.env.API_KEY) {
+    throw new UsageError('Set GEMINI_API_KEY in the environment.');
+  }
+
+  const template = await loadTemplate(values.template, values.mode);
+  // Anything other than the keywords must be a CSS colour, which is passed to the prompt as written.
+  const floorEffect = parseTint(values['floor-effect']!, ['none', 'desaturate'], '--floor-effect');
+  const turntableTint = parseTint(values['turntable-tint']!, ['none'], '--turntable-tint');
+  const options: ProcessingOptions = {
+    floorEffect: floorEffect === 'none' || floorEffect === 'desaturate' ? floorEffect : 'tint',
+    floorTintColor: floorEffect === 'none' || floorEffect === 'desaturate' ? DEFAULT_PROCESSING_OPTIONS.floorTintColor : floorEffect,
+    floorTintOpacity: parseOpacity(values['floor-opacity'], '--floor-opacity', DEFAULT_PROCESSING_OPTIONS.floorTintOpacity),
+    matchReflections: values['match-reflections'],
+    turntableTint: turntableTint === 'none' ? 'none' : 'tint',
+    turntableTintColor: turntableTint === 'none' ? DEFAULT_PROCESSING_OPTIONS.turntableTintColor : turntableTint,
+    turntableTintOpacity: parseOpacity(values['turntable-opacity'], '--turntable-opacity', DEFAULT_PROCESSING_OPTIONS.turntableTintOpacity),
+  };
+  const concurrency = values.concurrency ? Number(values.concurrency) : DEFAULT_QUEUE_OPTIONS.concurrency;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError('--concurrency must be a positive whole number.');
+  }
+  const budgetUsd = values.budget ? Number(values.budget) : null;
+  if (budgetUsd !== null && !(budgetUsd > 0)) {
+    throw new UsageError('--budget must be a positive amount in US dollars.');
+  }
+  const vehiclePattern = values['vehicle-pattern']!;
+  if (!isValidVehiclePattern(vehiclePattern)) {
+    throw new UsageError('--vehicle-pattern must contain {stock} once, and {shot} at most once.');
+  }
+  if (template.requiresBackground && !values.background) {
+    throw new UsageError(`The "${template.label}" mode needs --background.`);
+  }
+  const backgroundFile = template.requiresBackground && values.background ? await readImageFile(values.background) : null;
+  const backgroundName = backgroundFile?.name ?? null;
+
+  const sources = (await readdir(values.input, { withFileTypes: true }))
+    .filter(entry => entry.isFile() && MIME_TYPES[path.extname(entry.name).toLowerCase()])
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  if (sources.length === 0) {
+    throw new UsageError(`No JPEG, PNG or WebP images found in ${values.input}.`);
+  }
+
+  await mkdir(values.output, { recursive: true });
+  const reportPath = path.join(values.output, REPORT_FILENAME);
+  const report = await loadReport(reportPath);
+
+  const pending = sources.filter(source => {
+    const entry = report.images[source];
+    const alreadyDone = entry?.status === 'done' && entry.output && existsSync(path.join(values.output!, entry.output))
+      && isSameRun(entry, template.id, options, backgroundName);
+    return values.force || !alreadyDone;
+  });
+  console.log(`${sources.length} images found, ${sources.length - pending.length} already processed, ${pending.length} to process with "${template.label}".`);
+
+  const startedAt = new Date();
+  // Outputs kept from earlier runs are reserved so a.jpg and a.png cannot overwrite each other's result.
+  const usedOutputs = new Set(Object.values(report.images)
+    .filter(entry => entry.output && !pending.includes(entry.source))
+    .map(entry => entry.output!.toLowerCase()));
+  // Reports are saved one at a time so concurrent jobs never interleave writes.
+  let reportWrites = Promise.resolve();
+  const recordResult = (entry: ReportEntry) => {
+    report.images[entry.source] = entry;
+    reportWrites = reportWrites.then(() => writeReport(reportPath, report));
+  };
+  let runUsage = EMPTY_USAGE;
+  const usageBySource = new Map<string, ApiUsage>();
+  const recordUsage = (source: string, usage: ApiUsage | null) => {
+    runUsage = addUsage(runUsage, usage);
+    usageBySource.set(source, addUsage(usageBySource.get(source) ?? EMPTY_USAGE, usage));
+  };
+  // Images the budget stopped are left out of the report so the next run picks them up.
+  let skippedForBudget: string[] = [];
+
+  const queue = createJobQueue({
+    ...DEFAULT_QUEUE_OPTIONS,
+    concurrency,
+    onRetryScheduled: (source, nextAttempt, retryAt, error) => {
+      recordUsage(source, getErrorUsage(error));
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      console.warn(`  ${source}: ${message} (attempt ${nextAttempt} in ${Math.round((retryAt - Date.now()) / 1000)}s)`);
+    },
+    onFailure: (source, error, attempts) => {
+      const message = error instanceof Error ? error.message : "An unknown error occurred.";
+      console.error(`✗ ${source}: ${message}`);
+      recordUsage(source, getErrorUsage(error));
+      recordResult({
+        source,
+        output: null,
+        status: 'error',
+        error: message,
+        attempts,
+        mode: template.id,
+        options,
+        background: backgroundName,
+        usage: usageBySource.get(source) ?? EMPTY_USAGE,
+        finishedAt: new Date().toISOString(),
+      });
+    },
+    shouldPause: (activeJobs) => budgetUsd !== null && runUsage.costUsd + (activeJobs + 1) * estimateCallCost(GEMINI_IMAGE_MODEL) > budgetUsd,
+    // There is no one to resume a paused run, so it finishes what is in flight and stops.
+    onPause: () => {
+      skippedForBudget = queue.clearWaiting();
+      console.warn(`Budget of ${formatCost(budgetUsd ?? 0)} reached; ${skippedForBudget.length} images left for a later run.`);
+    },
+  });
+
+  queue.enqueue(pending.map(source => ({
+    id: source,
+    run: async (attempt) => {
+      const carFile = await readImageFile(path.join(values.input!, source));
+      const result = await processCarImage(carFile, backgroundFile, template, options);
+      recordUsage(source, result.usage);
+      const [, mimeType, data] = result.url.match(/^data:([^;]+);base64,(.*)$/s) ?? [];
+      if (!data) {
+        throw new Error('The provider returned an unreadable image.');
+      }
+      const output = claimUniquePath(renderFilename(values.name!, {
+        sourceName: source,
+        backgroundName,
+        stock: getStockNumber(source, vehiclePattern),
+        modeLabel: template.label,
+        options,
+        index: sources.indexOf(source) + 1,
+        total: sources.length,
+        date: startedAt,
+      }, getExtensionForMimeType(mimeType)), usedOutputs);
+      await writeFile(path.join(values.output!, output), Buffer.from(data, 'base64'));
+      console.log(`✓ ${source} → ${output}`);
+      recordResult({
+        source,
+        output,
+        status: 'done',
+        error: null,
+        attempts: attempt,
+        mode: template.id,
+        options,
+        background: backgroundName,
+        usage: usageBySource.get(source) ?? EMPTY_USAGE,
+        finishedAt: new Date().toISOString(),
+      });
+    },
+  })));
+
+  await queue.onIdle();
+  report.finishedAt = new Date().toISOString();
+  reportWrites = reportWrites.then(() => writeReport(reportPath, report));
+  await reportWrites;
+
+  const failed = sources.filter(source => !skippedForBudget.includes(source) && report.images[source]?.status === 'error');
+  const processed = sources.length - failed.length - skippedForBudget.length;
+  console.log(`${processed}/${sources.length} images processed. Report: ${reportPath}`);
+  console.log(`Estimated spend this run: ${formatCost(runUsage.costUsd)} over ${runUsage.calls} calls (${runUsage.totalTokens} tokens).`);
+  return failed.length > 0 || skippedForBudget.length > 0 ? 1 : 0;
+};
+
+run().then(
+  (exitCode) => {
+    process.exitCode = exitCode;
+  },
+  (error) => {
+    console.error(error instanceof Error ? error.message : error);
+    if (error instanceof UsageError) console.error('\nRun with --help for usage.');
+    process.exitCode = 2;
+  }
+);
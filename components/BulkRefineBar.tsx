@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Icon } from './Icon';
+
+interface BulkRefineBarProps {
+  selectedCount: number;
+  selectableCount: number;
+  allSelected: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  onRefine: (correction: string) => void;
+}
+
+export const BulkRefineBar: React.FC<BulkRefineBarProps> = ({ selectedCount, selectableCount, allSelected, onSelectAll, onClearSelection, onRefine }) => {
+  const [correction, setCorrection] = useState('');
+
+  const handleRefine = () => {
+    if (!correction.trim() || selectedCount === 0) return;
+    onRefine(correction.trim());
+    setCorrection('');
+  };
+
+  return (
+    <div className="mb-6 p-3 rounded-lg border border-gray-700 bg-gray-800/60 flex flex-wrap items-center gap-3">
+      <span className="text-sm text-gray-300">
+        {selectedCount > 0 ? `${selectedCount} selected` : 'Select results to refine them together'}
+      </span>
+      <button onClick={onSelectAll} disabled={allSelected} className="text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50 disabled:cursor-not-allowed">
+        Select all ({selectableCount})
+      </button>
+      {selectedCount > 0 && (
+        <>
+          <button onClick={onClearSelection} className="text-xs text-gray-400 hover:text-white">Clear</button>
+          <div className="flex flex-grow gap-2 min-w-[16rem]">
+            <input
+              type="text"
+              value={correction}
+              onChange={(e) => setCorrection(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRefine()}
+              placeholder="e.g., make the shadow lighter"
+              className="flex-grow bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-2"
+            />
+            <Button onClick={handleRefine} disabled={!correction.trim()}>
+              <Icon icon="sparkles" className="w-4 h-4 mr-2" />
+              Refine {selectedCount}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Icon } from './Icon';
+
+interface ComparisonViewerProps {
+  originalUrl: string;
+  processedUrl: string;
+  title: string;
+  onClose: () => void;
+}
+
+type CompareMode = 'wipe' | 'onion' | 'difference';
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 16;
+
+const compareModes: { id: CompareMode, label: string }[] = [
+  { id: 'wipe', label: 'Wipe' },
+  { id: 'onion', label: 'Onion Skin' },
+  { id: 'difference', label: 'Difference' },
+];
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ originalUrl, processedUrl, title, onClose }) => {
+  const stageRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ kind: 'pan' | 'wipe'; startX: number; startY: number; originX: number; originY: number } | null>(null);
+
+  const [mode, setMode] = useState<CompareMode>('wipe');
+  const [wipePosition, setWipePosition] = useState(50);
+  const [opacity, setOpacity] = useState(0.5);
+  const [differenceGain, setDifferenceGain] = useState(3);
+  // Both layers live inside one transformed container, so zoom and pan can never drift apart.
+  // The box is sized from the processed image, so 100% means one output pixel per screen pixel.
+  const [naturalSize, setNaturalSize] = useState<{ width: number; height: number } | null>(null);
+  const [fittedWidth, setFittedWidth] = useState(0);
+  const [view, setView] = useState<ViewTransform>({ scale: 1, x: 0, y: 0 });
+
+  const fitToStage = useCallback(() => {
+    const stage = stageRef.current;
+    if (!stage || !naturalSize) return;
+    const { width, height } = stage.getBoundingClientRect();
+    const fitScale = Math.min(width / naturalSize.width, height / naturalSize.height, 1);
+    const contentWidth = naturalSize.width * fitScale;
+    const contentHeight = naturalSize.height * fitScale;
+    setFittedWidth(contentWidth);
+    setView({ scale: 1, x: (width - contentWidth) / 2, y: (height - contentHeight) / 2 });
+  }, [naturalSize]);
+
+  const zoomAt = useCallback((nextScale: number, pointX: number, pointY: number) => {
+    setView(prev => {
+      const scale = Math.min(MAX_SCALE, Math.max(MIN_SCALE, nextScale));
+      const ratio = scale / prev.scale;
+      return { scale, x: pointX - (pointX - prev.x) * ratio, y: pointY - (pointY - prev.y) * ratio };
+    });
+  }, []);
+
+  const zoomToActualPixels = useCallback(() => {
+    const stage = stageRef.current;
+    if (!stage || !naturalSize || fittedWidth === 0) return;
+    const { width, height } = stage.getBoundingClientRect();
+    zoomAt(naturalSize.width / fittedWidth, width / 2, height / 2);
+  }, [naturalSize, fittedWidth, zoomAt]);
+
+  useEffect(() => {
+    fitToStage();
+    window.addEventListener('resize', fitToStage);
+    return () => window.removeEventListener('resize', fitToStage);
+  }, [fitToStage]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      if (e.key === '0') fitToStage();
+      if (e.key === '1') zoomToActualPixels();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose, fitToStage, zoomToActualPixels]);
+
+  const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    zoomAt(view.scale * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const handlePointerDown = (kind: 'pan' | 'wipe') => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    stageRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { kind, startX: e.clientX, startY: e.clientY, originX: view.x, originY: view.y };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (drag.kind === 'pan') {
+      setView(prev => ({ ...prev, x: drag.originX + e.clientX - drag.startX, y: drag.originY + e.clientY - drag.startY }));
+    } else if (contentRef.current) {
+      const rect = contentRef.current.getBoundingClientRect();
+      setWipePosition(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)));
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const zoomPercent = naturalSize && fittedWidth > 0 ? Math.round((fittedWidth * view.scale / naturalSize.width) * 100) : 100;
+
+  const layerClasses = 'absolute inset-0 w-full h-full object-contain select-none pointer-events-none';
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-gray-950/95 flex flex-col animate-fade-in">
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 border-b border-gray-700 bg-gray-900">
+        <p className="text-sm font-semibold text-gray-200 truncate flex-grow" title={title}>{title}</p>
+        <div className="flex gap-1">
+          {compareModes.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setMode(option.id)}
+              className={`px-3 py-1.5 rounded-md text-sm transition-all ${mode === option.id ? 'bg-blue-600 text-white font-semibold' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {mode === 'onion' && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Opacity
+            <input type="range" min={0} max={1} step={0.01} value={opacity} onChange={(e) => setOpacity(Number(e.target.value))} />
+          </label>
+        )}
+        {mode === 'difference' && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Gain
+            <input type="range" min={1} max={10} step={0.5} value={differenceGain} onChange={(e) => setDifferenceGain(Number(e.target.value))} />
+          </label>
+        )}
+        <div className="flex items-center gap-2 text-xs text-gray-400">
+          <button onClick={fitToStage} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Fit</button>
+          <button onClick={zoomToActualPixels} className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">100%</button>
+          <span className="w-12 text-right">{zoomPercent}%</span>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close comparison">
+          <Icon icon="close" className="w-6 h-6" />
+        </button>
+      </div>
+      <div
+        ref={stageRef}
+        className="relative flex-grow overflow-hidden cursor-grab active:cursor-grabbing"
+        onWheel={handleWheel}
+        onPointerDown={handlePointerDown('pan')}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div
+          ref={contentRef}
+          className="absolute top-0 left-0 origin-top-left"
+          style={{
+            width: fittedWidth,
+            aspectRatio: naturalSize ? `${naturalSize.width} / ${naturalSize.height}` : undefined,
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+            imageRendering: zoomPercent >= 100 ? 'pixelated' : 'auto',
+          }}
+        >
+          <div className="absolute inset-0" style={mode === 'difference' ? { isolation: 'isolate', filter: `brightness(${differenceGain})` } : undefined}>
+            <img
+              src={originalUrl}
+              alt="Original car"
+              className={layerClasses}
+            />
+            <img
+              src={processedUrl}
+              alt="Processed car"
+              className={layerClasses}
+              onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              style={
+                mode === 'wipe' ? { clipPath: `inset(0 0 0 ${wipePosition}%)` }
+                : mode === 'onion' ? { opacity }
+                : { mixBlendMode: 'difference' }
+              }
+            />
+          </div>
+          {mode === 'wipe' && (
+            <div
+              className="absolute top-0 bottom-0 w-6 -ml-3 cursor-ew-resize flex justify-center"
+              style={{ left: `${wipePosition}%` }}
+              onPointerDown={handlePointerDown('wipe')}
+            >
+              <div className="w-0.5 h-full bg-white/80 shadow" style={{ transform: `scaleX(${1 / view.scale})` }} />
+            </div>
+          )}
+        </div>
+        {mode === 'wipe' && (
+          <div className="absolute bottom-3 left-0 right-0 flex justify-between px-4 text-xs font-semibold text-gray-300 pointer-events-none">
+            <span className="bg-gray-900/70 px-2 py-1 rounded">ORIGINAL</span>
+            <span className="bg-gray-900/70 px-2 py-1 rounded">PROCESSED</span>
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 text-center py-2">Scroll to zoom, drag to pan. Press 1 for 100%, 0 to fit, Esc to close.</p>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { ExportFormat, ExportProfile } from '../types';
+import { hasUnenforceableSizeLimit, supportsFileSizeLimit } from '../services/exportProfiles';
+import { Button } from './Button';
+import { Icon } from './Icon';
+
+interface ExportProfilePickerProps {
+  profiles: ExportProfile[];
+  selectedProfileId: string;
+  onSelect: (profileId: string) => void;
+  onAddProfile: (profile: ExportProfile) => void;
+  onDeleteProfile: (profileId: string) => void;
+  disabled?: boolean;
+}
+
+const formatOptions: { id: ExportFormat, label: string }[] = [
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/png', label: 'PNG' },
+  { id: 'image/webp', label: 'WebP' },
+];
+
+const ExportProfileForm: React.FC<{
+  onSave: (profile: ExportProfile) => void;
+  onCancel: () => void;
+}> = ({ onSave, onCancel }) => {
+  const [name, setName] = useState('');
+  const [width, setWidth] = useState(1600);
+  const [height, setHeight] = useState(1200);
+  const [fit, setFit] = useState<ExportProfile['fit']>('crop');
+  const [padColor, setPadColor] = useState('#ffffff');
+  const [format, setFormat] = useState<ExportFormat>('image/jpeg');
+  const [quality, setQuality] = useState(90);
+  const [maxFileSizeKB, setMaxFileSizeKB] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      setError('A profile needs a name.');
+      return;
+    }
+    if (width < 1 || height < 1) {
+      setError('Width and height must be positive.');
+      return;
+    }
+    onSave({
+      id: `custom:${crypto.randomUUID()}`,
+      name: name.trim(),
+      builtIn: false,
+      size: { width, height },
+      fit,
+      padColor,
+      format,
+      quality: quality / 100,
+      maxFileSizeKB: maxFileSizeKB && supportsFileSizeLimit(format) ? Number(maxFileSizeKB) : null,
+    });
+  };
+
+  const inputClasses = 'bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5';
+
+  return (
+    <div className="absolute right-0 top-full mt-2 z-20 w-80 p-4 rounded-lg border border-gray-600 bg-gray-800 shadow-xl space-y-3 text-sm text-gray-300 animate-fade-in">
+      <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Profile name" className={`${inputClasses} w-full`} />
+      <div className="flex items-center gap-2">
+        <input type="number" min={1} value={width} onChange={(e) => setWidth(Number(e.target.value))} className={`${inputClasses} w-24`} aria-label="Width" />
+        <span>×</span>
+        <input type="number" min={1} value={height} onChange={(e) => setHeight(Number(e.target.value))} className={`${inputClasses} w-24`} aria-label="Height" />
+        <span className="text-gray-500">px</span>
+      </div>
+      <div className="flex items-center gap-2">
+        <select value={fit} onChange={(e) => setFit(e.target.value as ExportProfile['fit'])} className={inputClasses} aria-label="Aspect ratio handling">
+          <option value="crop">Crop to fill</option>
+          <option value="pad">Pad to fit</option>
+        </select>
+        <input type="color" value={padColor} onChange={(e) => setPadColor(e.target.value)} className="h-8 w-10 bg-transparent" aria-label="Pad colour" />
+      </div>
+      <div className="flex items-center gap-2">
+        <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} className={inputClasses} aria-label="Format">
+          {formatOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          Q
+          <input type="number" min={10} max={100} value={quality} onChange={(e) => setQuality(Number(e.target.value))} className={`${inputClasses} w-16`} aria-label="Quality" />
+        </label>
+        <input
+          type="number"
+          min={1}
+          value={supportsFileSizeLimit(format) ? maxFileSizeKB : ''}
+          onChange={(e) => setMaxFileSizeKB(e.target.value)}
+          disabled={!supportsFileSizeLimit(format)}
+          placeholder="Max KB"
+          title={supportsFileSizeLimit(format) ? undefined : 'PNG files cannot be compressed to a size limit'}
+          className={`${inputClasses} w-20 disabled:opacity-50`}
+          aria-label="Maximum file size in KB"
+        />
+      </div>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-sm text-gray-400 hover:text-white px-3">Cancel</button>
+        <Button onClick={handleSave}>Save Profile</Button>
+      </div>
+    </div>
+  );
+};
+
+export const ExportProfilePicker: React.FC<ExportProfilePickerProps> = ({
+  profiles,
+  selectedProfileId,
+  onSelect,
+  onAddProfile,
+  onDeleteProfile,
+  disabled = false,
+}) => {
+  const [isAdding, setIsAdding] = useState(false);
+  const selectedProfile = profiles.find(p => p.id === selectedProfileId);
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <select
+        value={selectedProfileId}
+        onChange={(e) => onSelect(e.target.value)}
+        disabled={disabled}
+        aria-label="Export profile"
+        className="bg-gray-900 border border-gray-600 text-white text-sm rounded-md p-2 focus:ring-blue-500 focus:border-blue-500"
+      >
+        {/* Profiles saved before size limits were restricted to lossy formats cannot be honoured. */}
+        {profiles.map(profile => (
+          <option key={profile.id} value={profile.id} disabled={hasUnenforceableSizeLimit(profile)}>
+            {profile.name}{hasUnenforceableSizeLimit(profile) && ' (size limit needs JPEG or WebP)'}
+          </option>
+        ))}
+      </select>
+      {selectedProfile && hasUnenforceableSizeLimit(selectedProfile) && (
+        <span className="text-xs text-yellow-400 whitespace-nowrap" title="Only JPEG and WebP can be compressed to a size limit">Size limit not applied</span>
+      )}
+      {selectedProfile && !selectedProfile.builtIn && (
+        <button onClick={() => onDeleteProfile(selectedProfile.id)} disabled={disabled} className="text-gray-400 hover:text-red-400" aria-label={`Delete ${selectedProfile.name}`}>
+          <Icon icon="close" className="w-4 h-4" />
+        </button>
+      )}
+      <button onClick={() => setIsAdding(!isAdding)} disabled={disabled} className="text-xs text-gray-400 hover:text-white whitespace-nowrap">
+        + Profile
+      </button>
+      {isAdding && (
+        <ExportProfileForm
+          onSave={(profile) => {
+            onAddProfile(profile);
+            setIsAdding(false);
+          }}
+          onCancel={() => setIsAdding(false)}
+        />
+      )}
+    </div>
+  );
+};
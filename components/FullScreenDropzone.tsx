@@ -1,10 +1,12 @@
 import React, { useState, useCallback } from 'react';
 import { Icon } from './Icon';
+import { collectDroppedFiles } from '../services/ingestion';
+import type { IngestReportEntry } from '../services/ingestion';
 
 interface FullScreenDropzoneProps {
   onClose: () => void;
-  onCarImagesDropped: (files: File[]) => void;
-  onBackgroundImageDropped: (files: File[]) => void;
+  onCarImagesDropped: (files: File[], dropReport: IngestReportEntry[]) => void;
+  onBackgroundImageDropped: (files: File[], dropReport: IngestReportEntry[]) => void;
 }
 
 const DropArea: React.FC<{
@@ -52,18 +54,18 @@ export const FullScreenDropzone: React.FC<FullScreenDropzoneProps> = ({ onClose,
     const handleCarDrop = (e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         e.stopPropagation();
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            onCarImagesDropped(Array.from(e.dataTransfer.files));
-        }
+        collectDroppedFiles(e.dataTransfer).then(({ files, report }) => {
+            if (files.length > 0 || report.length > 0) onCarImagesDropped(files, report);
+        });
         onClose();
     };
     
     const handleBackgroundDrop = (e: React.DragEvent<HTMLDivElement>) => {
         e.preventDefault();
         e.stopPropagation();
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            onBackgroundImageDropped(Array.from(e.dataTransfer.files));
-        }
+        collectDroppedFiles(e.dataTransfer).then(({ files, report }) => {
+            if (files.length > 0 || report.length > 0) onBackgroundImageDropped(files, report);
+        });
         onClose();
     };
 
@@ -86,13 +88,13 @@ export const FullScreenDropzone: React.FC<FullScreenDropzoneProps> = ({ onClose,
                     onDrop={handleCarDrop}
                     icon="car"
                     title="Drop Car Images"
-                    description="You can drop multiple files here"
+                    description="Drop files, folders or .zip archives"
                  />
                  <DropArea
                     onDrop={handleBackgroundDrop}
                     icon="image"
-                    title="Drop Background Image"
-                    description="You can drop a single file here"
+                    title="Drop Background Images"
+                    description="Drop files, folders or .zip archives"
                  />
             </div>
         </div>
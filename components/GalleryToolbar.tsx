@@ -0,0 +1,75 @@
+import React from 'react';
+import type { ProcessedImage, ReviewState } from '../types';
+import { GALLERY_SORTS, matchesStatusFilter, REVIEW_LABELS, STATUS_FILTERS } from '../services/gallery';
+import type { GalleryDensity, GallerySort, GalleryView, ReviewFilter } from '../services/gallery';
+
+interface GalleryToolbarProps {
+  view: GalleryView;
+  onChange: (view: GalleryView) => void;
+  images: ProcessedImage[];
+  visibleCount: number;
+}
+
+export const GalleryToolbar: React.FC<GalleryToolbarProps> = ({ view, onChange, images, visibleCount }) => {
+  const update = (changes: Partial<GalleryView>) => onChange({ ...view, ...changes });
+
+  return (
+    <div className="mb-6 flex flex-wrap items-center gap-3">
+      <div className="flex flex-wrap gap-1">
+        {STATUS_FILTERS.map(filter => {
+          const count = images.filter(image => matchesStatusFilter(image, filter.id)).length;
+          if (count === 0 && filter.id !== 'all' && filter.id !== view.statusFilter) return null;
+          return (
+            <button
+              key={filter.id}
+              onClick={() => update({ statusFilter: filter.id })}
+              className={`text-xs px-3 py-1 rounded-full ${view.statusFilter === filter.id ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {filter.label} <span className="opacity-70">{count}</span>
+            </button>
+          );
+        })}
+      </div>
+      <input
+        type="search"
+        value={view.search}
+        onChange={(e) => update({ search: e.target.value })}
+        placeholder="Search filenames"
+        className="flex-grow min-w-[10rem] bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5"
+      />
+      <select
+        value={view.reviewFilter}
+        onChange={(e) => update({ reviewFilter: e.target.value as ReviewFilter })}
+        aria-label="Filter by review"
+        className="bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5"
+      >
+        <option value="all">Any review</option>
+        {(Object.keys(REVIEW_LABELS) as ReviewState[]).map(state => (
+          <option key={state} value={state}>{REVIEW_LABELS[state]}</option>
+        ))}
+      </select>
+      <select
+        value={view.sort}
+        onChange={(e) => update({ sort: e.target.value as GallerySort })}
+        aria-label="Sort results"
+        className="bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5"
+      >
+        {GALLERY_SORTS.map(sort => <option key={sort.id} value={sort.id}>{sort.label}</option>)}
+      </select>
+      <div className="flex rounded-md overflow-hidden border border-gray-600" role="group" aria-label="Density">
+        {(['grid', 'list'] as GalleryDensity[]).map(density => (
+          <button
+            key={density}
+            onClick={() => update({ density })}
+            className={`text-xs px-3 py-1.5 capitalize ${view.density === density ? 'bg-gray-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+          >
+            {density}
+          </button>
+        ))}
+      </div>
+      {visibleCount !== images.length && (
+        <span className="text-xs text-gray-500">Showing {visibleCount} of {images.length}</span>
+      )}
+    </div>
+  );
+};
@@ -1,36 +1,87 @@
-import React, { useState } from 'react';
-import type { ProcessedImage } from '../types';
+import React, { useState, useEffect } from 'react';
+import type { ExportProfile, ProcessedImage, ReviewState } from '../types';
 import Spinner from './Spinner';
 import { Icon } from './Icon';
 import { Button } from './Button';
+import { ComparisonViewer } from './ComparisonViewer';
+import { MaskEditor } from './MaskEditor';
+import { ReviewControls } from './ReviewControls';
+import { getCurrentRevision, getRedoTarget, getUndoTarget } from '../services/revisions';
+import { formatCost } from '../services/usage';
 
 interface ImageCardProps {
   image: ProcessedImage;
-  getOutputFilename: (originalName: string) => string;
-  onCorrect: (imageId: string, prompt: string) => Promise<void>;
+  exportProfiles: ExportProfile[];
+  exportProfileId: string;
+  onDownload: (imageId: string, profileId: string) => Promise<void>;
+  // Resolves to whether the refinement produced a new revision.
+  onCorrect: (imageId: string, prompt: string, maskUrl: string | null) => Promise<boolean>;
+  onSelectRevision: (imageId: string, revisionId: string) => void;
+  onReview: (imageId: string, reviewState: ReviewState) => void;
+  onReviewNoteChange: (imageId: string, note: string) => void;
+  // Only approved results that belong to a vehicle can be its reference.
+  canBeReference: boolean;
+  onToggleReference: (imageId: string) => void;
+  onPause: (imageId: string) => void;
+  onResume: (imageId: string) => void;
+  onCancel: (imageId: string) => void;
+  onRetry: (imageId: string) => void;
+  isSelected: boolean;
+  onToggleSelect: (imageId: string) => void;
+  onOpen: (imageId: string) => void;
 }
 
-const downloadImage = (url: string, filename: string) => {
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+const useRetryCountdown = (retryAt: number | null): number | null => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (retryAt === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return retryAt === null ? null : Math.max(0, Math.ceil((retryAt - now) / 1000));
 };
 
-const ImageCard: React.FC<ImageCardProps> = ({ image, getOutputFilename, onCorrect }) => {
+const queueActionClasses = 'text-xs px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200';
+
+const ImageCard: React.FC<ImageCardProps> = ({ image, exportProfiles, exportProfileId, onDownload, onCorrect, onSelectRevision, onReview, onReviewNoteChange, canBeReference, onToggleReference, onPause, onResume, onCancel, onRetry, isSelected, onToggleSelect, onOpen }) => {
   const [showCorrection, setShowCorrection] = useState(false);
   const [correctionPrompt, setCorrectionPrompt] = useState('');
   const [isCorrecting, setIsCorrecting] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [refineMaskUrl, setRefineMaskUrl] = useState<string | null>(null);
+  const [isEditingMask, setIsEditingMask] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const retryInSeconds = useRetryCountdown(image.nextRetryAt);
+  const currentRevision = getCurrentRevision(image);
+  const undoTarget = getUndoTarget(image);
+  const redoTarget = getRedoTarget(image);
+  const latestRevision = image.revisions[image.revisions.length - 1];
+  const isBranching = !!currentRevision && currentRevision !== latestRevision;
+
+  const handleDownload = async (profileId: string) => {
+    setShowExportMenu(false);
+    setIsExporting(true);
+    try {
+      await onDownload(image.id, profileId);
+    } finally {
+      setIsExporting(false);
+    }
+  };
 
   const handleCorrectSubmit = async () => {
     if (!correctionPrompt.trim()) return;
     setIsCorrecting(true);
     try {
-      await onCorrect(image.id, correctionPrompt);
-      setShowCorrection(false);
-      setCorrectionPrompt('');
+      // A failed or cancelled refinement keeps the prompt so it can be sent again.
+      if (await onCorrect(image.id, correctionPrompt, refineMaskUrl)) {
+        setShowCorrection(false);
+        setCorrectionPrompt('');
+        setRefineMaskUrl(null);
+      }
     } catch (error) {
       console.error("Correction failed:", error);
     } finally {
@@ -40,7 +91,7 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, getOutputFilename, onCorre
 
 
   return (
-    <div className="bg-gray-800 rounded-lg overflow-hidden shadow-lg animate-fade-in">
+    <div className={`bg-gray-800 rounded-lg overflow-hidden shadow-lg animate-fade-in ${isSelected ? 'ring-2 ring-blue-500' : ''}`}>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-px bg-gray-700">
         <div className="bg-gray-800 p-2">
           <p className="text-xs text-center font-semibold text-gray-400 mb-2">ORIGINAL</p>
@@ -51,21 +102,84 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, getOutputFilename, onCorre
           {image.status === 'processing' && (
             <div className="flex flex-col items-center justify-center text-gray-400">
               <Spinner />
-              <p className="text-sm mt-2">Generating...</p>
+              <p className="text-sm mt-2">{isCorrecting ? 'Refining...' : 'Generating...'}</p>
+              {image.attempts > 1 && !isCorrecting && (
+                <p className="text-xs text-gray-500 mt-1">Attempt {image.attempts}</p>
+              )}
+              <div className="flex gap-2 mt-3">
+                {!isCorrecting && <button onClick={() => onPause(image.id)} className={queueActionClasses}>Pause</button>}
+                <button onClick={() => onCancel(image.id)} className={queueActionClasses}>Cancel</button>
+              </div>
+            </div>
+          )}
+          {image.status === 'paused' && (
+            <div className="text-gray-400 text-sm text-center p-4">
+              <p className="font-semibold">Paused</p>
+              <div className="flex justify-center gap-2 mt-3">
+                <button onClick={() => onResume(image.id)} className={queueActionClasses}>Resume</button>
+                <button onClick={() => onCancel(image.id)} className={queueActionClasses}>Cancel</button>
+              </div>
             </div>
           )}
-          {image.status === 'done' && image.processedUrl && (
+          {image.status === 'cancelled' && (
+            <div className="text-gray-400 text-sm text-center p-4">
+              <p className="font-semibold">Cancelled</p>
+              {image.error && <p className="text-xs text-gray-500 mt-1">{image.error}</p>}
+              <button onClick={() => onRetry(image.id)} className={`${queueActionClasses} mt-3`}>Retry</button>
+            </div>
+          )}
+          {(image.status === 'done' || image.status === 'needs-review') && image.processedUrl && (
             <div className="w-full">
+                {image.status === 'needs-review' && (
+                    <div className="mb-2 p-2 rounded border border-yellow-600/60 bg-yellow-900/30 text-xs text-yellow-300">
+                        <div className="flex items-center justify-between gap-2">
+                            <p className="font-semibold">Needs review</p>
+                            <div className="flex gap-1">
+                                <button onClick={() => onRetry(image.id)} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Retry</button>
+                                <button onClick={() => onReview(image.id, 'approved')} className="px-2 py-0.5 rounded bg-yellow-600 hover:bg-yellow-500 text-gray-900 font-semibold">Approve</button>
+                            </div>
+                        </div>
+                        <ul className="mt-1 list-disc list-inside text-yellow-200/80">
+                            {image.qualityIssues?.map(issue => <li key={issue.code}>{issue.message}</li>)}
+                        </ul>
+                    </div>
+                )}
                 <div className="relative group w-full">
                     <img src={image.processedUrl} alt="Processed car" className="w-full h-auto object-cover rounded" />
-                    <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-60 transition-all duration-300 flex items-center justify-center gap-2">
-                        <Button 
-                            onClick={() => downloadImage(image.processedUrl!, getOutputFilename(image.originalFile.name))}
-                            className="opacity-0 group-hover:opacity-100 transition-opacity duration-300"
-                        >
-                            <Icon icon="download" className="w-4 h-4 mr-2" />
-                            Download
-                        </Button>
+                    <div
+                        onClick={(e) => e.target === e.currentTarget && onOpen(image.id)}
+                        className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-60 transition-all duration-300 flex items-center justify-center gap-2 cursor-zoom-in"
+                    >
+                        <div className="relative flex opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+                            <Button
+                                onClick={() => handleDownload(exportProfileId)}
+                                isLoading={isExporting}
+                                title={exportProfiles.find(p => p.id === exportProfileId)?.name}
+                            >
+                                <Icon icon="download" className="w-4 h-4 mr-2" />
+                                Download
+                            </Button>
+                            <button
+                                onClick={() => setShowExportMenu(!showExportMenu)}
+                                className="ml-px px-2 rounded-md bg-blue-600 hover:bg-blue-700 text-white text-xs"
+                                aria-label="Choose export profile"
+                            >
+                                ▾
+                            </button>
+                            {showExportMenu && (
+                                <div className="absolute left-0 top-full mt-1 z-10 w-56 bg-gray-800 border border-gray-600 rounded-md shadow-xl py-1">
+                                    {exportProfiles.map(profile => (
+                                        <button
+                                            key={profile.id}
+                                            onClick={() => handleDownload(profile.id)}
+                                            className={`block w-full text-left px-3 py-1.5 text-xs hover:bg-gray-700 ${profile.id === exportProfileId ? 'text-white font-semibold' : 'text-gray-300'}`}
+                                        >
+                                            {profile.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                          <Button
                             onClick={() => setShowCorrection(!showCorrection)}
                             className="opacity-0 group-hover:opacity-100 transition-opacity duration-300 bg-purple-600 hover:bg-purple-700 focus:ring-purple-500"
@@ -73,12 +187,78 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, getOutputFilename, onCorre
                             <Icon icon="sparkles" className="w-4 h-4 mr-2" />
                             Refine
                         </Button>
+                        <Button
+                            onClick={() => setIsComparing(true)}
+                            className="opacity-0 group-hover:opacity-100 transition-opacity duration-300"
+                        >
+                            <Icon icon="compare" className="w-4 h-4 mr-2" />
+                            Compare
+                        </Button>
                     </div>
                 </div>
+                <div className="flex items-center gap-2 mt-2">
+                    <ReviewControls
+                        reviewState={image.reviewState}
+                        note={image.reviewNote ?? ''}
+                        onReview={(reviewState) => onReview(image.id, reviewState)}
+                        onNoteChange={(note) => onReviewNoteChange(image.id, note)}
+                    />
+                    {image.status === 'done' && image.reviewState === 'rejected' && (
+                        <button onClick={() => onRetry(image.id)} className={`${queueActionClasses} flex-shrink-0`}>Retry</button>
+                    )}
+                    {canBeReference && (
+                        <button
+                            onClick={() => onToggleReference(image.id)}
+                            aria-pressed={!!image.isReference}
+                            title={image.isReference ? 'Unset reference' : "Shots of this vehicle generated from now on are matched to this result's lighting, shadow and framing."}
+                            className={`flex-shrink-0 text-xs px-2 py-1 rounded ${image.isReference ? 'bg-blue-600 text-white' : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+                        >
+                            {image.isReference ? 'Reference ✓' : 'Use as reference'}
+                        </button>
+                    )}
+                </div>
+                {image.error && (
+                    <p className="text-xs text-red-400 mt-2 text-center">{image.error}</p>
+                )}
+                {image.revisions.length > 1 && (
+                    <div className="mt-2">
+                        <div className="flex items-center justify-between mb-1">
+                            <p className="text-xs text-gray-400 truncate" title={currentRevision?.prompt}>
+                                {currentRevision?.kind === 'refined' ? `"${currentRevision.prompt}"` : 'Original generation'}
+                            </p>
+                            <div className="flex gap-1 flex-shrink-0">
+                                <button onClick={() => undoTarget && onSelectRevision(image.id, undoTarget.id)} disabled={!undoTarget} className="p-1 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-30" aria-label="Undo refinement">
+                                    <Icon icon="undo" className="w-4 h-4" />
+                                </button>
+                                <button onClick={() => redoTarget && onSelectRevision(image.id, redoTarget.id)} disabled={!redoTarget} className="p-1 rounded text-gray-300 hover:bg-gray-700 disabled:opacity-30" aria-label="Redo refinement">
+                                    <Icon icon="redo" className="w-4 h-4" />
+                                </button>
+                            </div>
+                        </div>
+                        <div className="flex space-x-2 overflow-x-auto pb-1">
+                            {image.revisions.map((revision, index) => (
+                                <button
+                                    key={revision.id}
+                                    onClick={() => onSelectRevision(image.id, revision.id)}
+                                    title={`${index + 1}. ${revision.kind === 'refined' ? revision.prompt : 'Original generation'} (${new Date(revision.createdAt).toLocaleTimeString()})`}
+                                    className={`relative flex-shrink-0 w-14 h-14 rounded overflow-hidden border-2 ${revision.id === image.currentRevisionId ? 'border-purple-500' : 'border-transparent hover:border-gray-500'}`}
+                                >
+                                    <img src={revision.url} alt={`Revision ${index + 1}`} className="w-full h-full object-cover" />
+                                    <span className="absolute bottom-0 right-0 bg-gray-900/80 text-[10px] px-1 text-gray-200">{index + 1}</span>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
                  {showCorrection && (
                     <div className="p-3 bg-gray-700/50 mt-px">
                     <label htmlFor={`correction-${image.id}`} className="text-xs font-semibold text-gray-300 block mb-1">
                         Refinement Instructions
+                        {isBranching && (
+                            <span className="ml-1 font-normal text-purple-300">
+                                (branching from revision {image.revisions.indexOf(currentRevision!) + 1})
+                            </span>
+                        )}
                     </label>
                     <div className="flex gap-2">
                         <input
@@ -94,6 +274,19 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, getOutputFilename, onCorre
                         Submit
                         </Button>
                     </div>
+                    <div className="flex items-center gap-3 mt-2 text-xs">
+                        <button onClick={() => setIsEditingMask(true)} disabled={isCorrecting} className="text-purple-300 hover:text-purple-200 disabled:opacity-50">
+                            {refineMaskUrl ? 'Edit painted area' : 'Paint area to change'}
+                        </button>
+                        {refineMaskUrl ? (
+                            <>
+                                <span className="text-gray-400">Only the painted area will change.</span>
+                                <button onClick={() => setRefineMaskUrl(null)} disabled={isCorrecting} className="text-gray-400 hover:text-red-400">Remove</button>
+                            </>
+                        ) : (
+                            <span className="text-gray-500">Without a mask the whole image may change.</span>
+                        )}
+                    </div>
                     </div>
                 )}
             </div>
@@ -103,16 +296,79 @@ const ImageCard: React.FC<ImageCardProps> = ({ image, getOutputFilename, onCorre
               <Icon icon="error" className="w-8 h-8 mb-2" />
               <p className="text-sm font-semibold">Processing Failed</p>
               <p className="text-xs mt-1">{image.error || 'An unknown error occurred.'}</p>
+              {image.attempts > 1 && (
+                <p className="text-xs text-red-300/70 mt-1">Gave up after {image.attempts} attempts</p>
+              )}
+              <button onClick={() => onRetry(image.id)} className={`${queueActionClasses} mt-3`}>Retry</button>
             </div>
           )}
           {(image.status === 'pending') && (
-            <div className="text-gray-500 text-sm">
-                Waiting...
+            retryInSeconds !== null ? (
+              <div className="text-yellow-400 text-sm text-center p-4">
+                <p className="font-semibold">Retrying in {retryInSeconds}s</p>
+                <p className="text-xs text-gray-400 mt-1">Attempt {image.attempts} failed: {image.error}</p>
+              </div>
+            ) : (
+              <div className="text-gray-500 text-sm">
+                  Waiting...
+              </div>
+            )
+          )}
+          {image.status === 'pending' && (
+            <div className="flex gap-2 mt-3">
+              <button onClick={() => onPause(image.id)} className={queueActionClasses}>Pause</button>
+              <button onClick={() => onCancel(image.id)} className={queueActionClasses}>Cancel</button>
             </div>
           )}
         </div>
       </div>
-       <p className="text-xs text-gray-500 p-2 truncate" title={image.originalFile.name}>{image.originalFile.name}</p>
+       <div className="flex items-center justify-between gap-2 p-2 text-xs">
+         {(image.status === 'done' || image.status === 'needs-review') && image.processedUrl && (
+           <input
+             type="checkbox"
+             checked={isSelected}
+             onChange={() => onToggleSelect(image.id)}
+             aria-label={`Select ${image.originalFile.name} for bulk refinement`}
+             className="flex-shrink-0 w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2"
+           />
+         )}
+         <p className="flex-grow text-gray-500 truncate" title={image.originalFile.name}>
+           {image.originalFile.name}
+           {image.backgroundFile && <span className="text-gray-600"> on {image.backgroundFile.name}</span>}
+         </p>
+         {image.referenceDrift !== undefined && (
+           <span className="flex-shrink-0 text-gray-500" title="How far this result's look strays from its vehicle's reference">
+             {Math.round(image.referenceDrift * 100)}% drift
+           </span>
+         )}
+         {image.usage && image.usage.calls > 0 && (
+           <span
+             className="flex-shrink-0 text-gray-500"
+             title={`${image.usage.calls} call${image.usage.calls !== 1 ? 's' : ''}: ${image.usage.promptTokens.toLocaleString()} input and ${image.usage.outputTokens.toLocaleString()} output tokens`}
+           >
+             {formatCost(image.usage.costUsd)}
+           </span>
+         )}
+       </div>
+      {isEditingMask && image.processedUrl && (
+        <MaskEditor
+          imageUrl={image.processedUrl}
+          initialMaskUrl={refineMaskUrl}
+          onSave={(maskUrl) => {
+            setRefineMaskUrl(maskUrl);
+            setIsEditingMask(false);
+          }}
+          onClose={() => setIsEditingMask(false)}
+        />
+      )}
+      {isComparing && image.processedUrl && (
+        <ComparisonViewer
+          originalUrl={image.originalUrl}
+          processedUrl={image.processedUrl}
+          title={image.originalFile.name}
+          onClose={() => setIsComparing(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,8 +1,11 @@
-import React, { useCallback, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Icon } from './Icon';
+import { collectDroppedFiles, MAX_UPLOAD_FILES } from '../services/ingestion';
+import type { IngestReportEntry } from '../services/ingestion';
 
 interface ImageUploaderProps {
-  onFilesSelected: (files: File[]) => void;
+  // `dropReport` lists anything in a drop that could not be read.
+  onFilesSelected: (files: File[], dropReport?: IngestReportEntry[]) => void;
   label: string;
   // Fix: Specify props type as <any> to prevent it from being inferred as `unknown` which causes type errors with React.cloneElement.
   IconComponent: React.ReactElement<any>;
@@ -10,41 +13,23 @@ interface ImageUploaderProps {
   accept?: string;
 }
 
-const MAX_FILES = 50;
-const MAX_SIZE_MB = 10;
-const MAX_SIZE_BYTES = MAX_SIZE_MB * 1024 * 1024;
+// Files are passed on unfiltered; checking and preparing them is left to the ingestion service.
 
 export const ImageUploader: React.FC<ImageUploaderProps> = ({
   onFilesSelected,
   label,
   IconComponent,
   multiple = false,
-  accept = 'image/jpeg, image/png, image/webp',
+  accept = 'image/jpeg, image/png, image/webp, .zip, application/zip',
 }) => {
   const [dragActive, setDragActive] = useState(false);
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
 
-  const handleFiles = useCallback((files: FileList | null) => {
-    if (!files) return;
-    
-    let fileArray = Array.from(files);
-    
-    // Filter by type
-    fileArray = fileArray.filter(file => accept.includes(file.type));
-    
-    // Filter by size
-    fileArray = fileArray.filter(file => file.size <= MAX_SIZE_BYTES);
-
-    if (!multiple) {
-      fileArray = fileArray.slice(0, 1);
-    } else {
-      fileArray = fileArray.slice(0, MAX_FILES);
-    }
-
-    if (fileArray.length > 0) {
-      onFilesSelected(fileArray);
-    }
-  }, [accept, multiple, onFilesSelected]);
+  // React does not know the non-standard attribute that turns a file input into a folder picker.
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
   const handleDrag = (e: React.DragEvent) => {
     e.preventDefault();
@@ -60,16 +45,17 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-      handleFiles(e.dataTransfer.files);
-    }
+    collectDroppedFiles(e.dataTransfer).then(({ files, report }) => {
+      if (files.length > 0 || report.length > 0) onFilesSelected(files, report);
+    });
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
     if (e.target.files && e.target.files[0]) {
-      handleFiles(e.target.files);
+      onFilesSelected(Array.from(e.target.files));
     }
+    e.target.value = '';
   };
 
   const onButtonClick = () => {
@@ -94,15 +80,32 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({
         onChange={handleChange}
         accept={accept}
       />
+      <input
+        ref={folderInputRef}
+        type="file"
+        className="hidden"
+        onClick={(e) => e.stopPropagation()}
+        onChange={handleChange}
+      />
       <div className="flex flex-col items-center text-center text-gray-400">
         {React.cloneElement(IconComponent, { className: 'w-12 h-12 mb-4' })}
         <p className="font-semibold">{label}</p>
         <p className="text-xs mt-1">
-          {multiple ? `Up to ${MAX_FILES} images, ` : ''}
-          {`Max ${MAX_SIZE_MB}MB per image.`}
+          {multiple ? `Up to ${MAX_UPLOAD_FILES} images in total. ` : ''}
+          JPEG, PNG, WebP or a .zip of them. Large photos are downscaled.
         </p>
         <p className="text-xs text-gray-500 mt-2">
-          {`Click or drag & drop to upload`}
+          {`Click or drag & drop files or folders, or `}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              folderInputRef.current?.click();
+            }}
+            className="text-blue-400 hover:text-blue-300 underline"
+          >
+            choose a folder
+          </button>
         </p>
       </div>
     </div>
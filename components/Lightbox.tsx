@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import type { ProcessedImage, ReviewState } from '../types';
+import { isRetryable, isReviewable, REVIEW_LABELS, STATUS_LABELS } from '../services/gallery';
+import { Icon } from './Icon';
+import { ReviewControls } from './ReviewControls';
+import Spinner from './Spinner';
+
+interface LightboxProps {
+  images: ProcessedImage[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+  onReview: (imageId: string, reviewState: ReviewState) => void;
+  onReviewNoteChange: (imageId: string, note: string) => void;
+  onRefine: (imageId: string, prompt: string) => Promise<void>;
+  onRetry: (imageId: string) => void;
+  onDownload: (imageId: string) => void;
+}
+
+const isTyping = (target: EventTarget | null): boolean =>
+  target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+export const Lightbox: React.FC<LightboxProps> = ({ images, index, onIndexChange, onClose, onReview, onReviewNoteChange, onRefine, onRetry, onDownload }) => {
+  const [showOriginal, setShowOriginal] = useState(false);
+  const [refinePrompt, setRefinePrompt] = useState<string | null>(null);
+  const image = images[Math.min(index, images.length - 1)];
+
+  const canReview = !!image && isReviewable(image);
+  const canRefine = canReview;
+  const canRetry = !!image && isRetryable(image);
+  const canDownload = image?.status === 'done' && !!image.processedUrl;
+
+  useEffect(() => {
+    setShowOriginal(false);
+    setRefinePrompt(null);
+  }, [image?.id]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        if (refinePrompt !== null) setRefinePrompt(null);
+        else onClose();
+        return;
+      }
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey || !image) return;
+      switch (e.key) {
+        case 'ArrowLeft':
+          onIndexChange(Math.max(0, index - 1));
+          break;
+        case 'ArrowRight':
+          onIndexChange(Math.min(images.length - 1, index + 1));
+          break;
+        case 'a':
+          if (canReview) onReview(image.id, 'approved');
+          break;
+        case 'x':
+          if (canReview) onReview(image.id, 'rejected');
+          break;
+        case 'r':
+          if (canRefine) setRefinePrompt('');
+          break;
+        case 't':
+          if (canRetry) onRetry(image.id);
+          break;
+        case 'd':
+          if (canDownload) onDownload(image.id);
+          break;
+        case 'o':
+          setShowOriginal(prev => !prev);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [image, index, images.length, refinePrompt, canReview, canRefine, canRetry, canDownload, onIndexChange, onClose, onReview, onRetry, onDownload]);
+
+  if (!image) return null;
+
+  const handleRefineSubmit = async () => {
+    if (!refinePrompt?.trim()) return;
+    const prompt = refinePrompt.trim();
+    setRefinePrompt(null);
+    await onRefine(image.id, prompt);
+  };
+
+  const actionClasses = 'text-sm px-3 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-40 disabled:cursor-not-allowed';
+  const displayUrl = showOriginal || !image.processedUrl ? image.originalUrl : image.processedUrl;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/95 flex flex-col animate-fade-in" role="dialog" aria-modal="true">
+      <div className="flex items-center justify-between gap-4 px-4 py-3 text-sm text-gray-300">
+        <p className="truncate">
+          <span className="text-gray-500 mr-2">{index + 1} / {images.length}</span>
+          {image.originalFile.name}
+          {image.backgroundFile && <span className="text-gray-500"> on {image.backgroundFile.name}</span>}
+          <span className="ml-3 text-xs font-semibold text-gray-400">
+            {STATUS_LABELS[image.status]}{canReview && `, ${REVIEW_LABELS[image.reviewState].toLowerCase()}`}{image.isReference && ', set reference'}
+          </span>
+        </p>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close">
+          <Icon icon="close" className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="relative flex-grow flex items-center justify-center min-h-0 px-16">
+        <button
+          onClick={() => onIndexChange(Math.max(0, index - 1))}
+          disabled={index === 0}
+          className="absolute left-4 text-4xl text-gray-400 hover:text-white disabled:opacity-20"
+          aria-label="Previous result"
+        >
+          ‹
+        </button>
+        {image.status === 'processing' || image.status === 'pending' ? (
+          <div className="flex flex-col items-center text-gray-400">
+            <Spinner />
+            <p className="mt-2">{STATUS_LABELS[image.status]}...</p>
+          </div>
+        ) : (
+          <img src={displayUrl} alt={image.originalFile.name} className="max-h-full max-w-full object-contain" />
+        )}
+        {(showOriginal || !image.processedUrl) && image.status !== 'processing' && image.status !== 'pending' && (
+          <span className="absolute top-2 left-1/2 -translate-x-1/2 text-xs bg-gray-900/80 text-gray-300 px-2 py-1 rounded">Original</span>
+        )}
+        <button
+          onClick={() => onIndexChange(Math.min(images.length - 1, index + 1))}
+          disabled={index >= images.length - 1}
+          className="absolute right-4 text-4xl text-gray-400 hover:text-white disabled:opacity-20"
+          aria-label="Next result"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="px-4 py-3 flex flex-col items-center gap-2">
+        {image.error && <p className="text-xs text-red-400">{image.error}</p>}
+        {image.qualityIssues && image.qualityIssues.length > 0 && (
+          <p className="text-xs text-yellow-300">{image.qualityIssues.map(issue => issue.message).join(' ')}</p>
+        )}
+        {canReview && (
+          <div className="w-full max-w-xl">
+            <ReviewControls
+              reviewState={image.reviewState}
+              note={image.reviewNote ?? ''}
+              onReview={(reviewState) => onReview(image.id, reviewState)}
+              onNoteChange={(note) => onReviewNoteChange(image.id, note)}
+              shortcuts
+            />
+          </div>
+        )}
+        {refinePrompt !== null ? (
+          <div className="flex gap-2 w-full max-w-xl">
+            <input
+              type="text"
+              value={refinePrompt}
+              autoFocus
+              onChange={(e) => setRefinePrompt(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRefineSubmit()}
+              placeholder="e.g., make the shadow softer"
+              className="flex-grow bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-2"
+            />
+            <button onClick={handleRefineSubmit} disabled={!refinePrompt.trim()} className={actionClasses}>Refine</button>
+          </div>
+        ) : (
+          <div className="flex flex-wrap justify-center gap-2">
+            <button onClick={() => setRefinePrompt('')} disabled={!canRefine} className={actionClasses}>Refine <kbd className="text-gray-500">R</kbd></button>
+            <button onClick={() => onRetry(image.id)} disabled={!canRetry} className={actionClasses}>Retry <kbd className="text-gray-500">T</kbd></button>
+            <button onClick={() => onDownload(image.id)} disabled={!canDownload} className={actionClasses}>Download <kbd className="text-gray-500">D</kbd></button>
+            <button onClick={() => setShowOriginal(!showOriginal)} disabled={!image.processedUrl} className={actionClasses}>
+              {showOriginal ? 'Show result' : 'Show original'} <kbd className="text-gray-500">O</kbd>
+            </button>
+          </div>
+        )}
+        <p className="text-xs text-gray-600">← → to move between results, Esc to close</p>
+      </div>
+    </div>
+  );
+};
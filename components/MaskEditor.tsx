@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Button } from './Button';
+import { Icon } from './Icon';
+
+interface MaskEditorProps {
+  imageUrl: string;
+  initialMaskUrl: string | null;
+  onSave: (maskUrl: string | null) => void;
+  onClose: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser' | 'lasso';
+
+const maskTools: { id: MaskTool, label: string }[] = [
+  { id: 'brush', label: 'Brush' },
+  { id: 'lasso', label: 'Lasso' },
+  { id: 'eraser', label: 'Eraser' },
+];
+
+const MASK_COLOR = 'rgb(239, 68, 68)';
+
+export const MaskEditor: React.FC<MaskEditorProps> = ({ imageUrl, initialMaskUrl, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lassoRef = useRef<{ x: number; y: number }[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  // Brush size as a percentage of the image width, so it feels the same at any resolution.
+  const [brushSize, setBrushSize] = useState(4);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [lassoPreview, setLassoPreview] = useState<{ x: number; y: number }[]>([]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !size || !initialMaskUrl) return;
+    const mask = new Image();
+    mask.onload = () => canvas.getContext('2d')?.drawImage(mask, 0, 0, size.width, size.height);
+    mask.src = initialMaskUrl;
+  }, [size, initialMaskUrl]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const toImagePoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height),
+    };
+  };
+
+  const strokeTo = (point: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || !size) return;
+    const from = lastPointRef.current ?? point;
+    ctx.save();
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.lineWidth = size.width * (brushSize / 100);
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    ctx.restore();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      lassoRef.current = [point];
+      setLassoPreview([point]);
+    } else {
+      lastPointRef.current = null;
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      lassoRef.current.push(point);
+      setLassoPreview([...lassoRef.current]);
+    } else {
+      strokeTo(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+    const points = lassoRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (tool === 'lasso' && ctx && points.length > 2) {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      points.forEach((point, index) => index === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y));
+      ctx.closePath();
+      ctx.fill();
+    }
+    lassoRef.current = [];
+    setLassoPreview([]);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    let isEmpty = true;
+    for (let i = 3; i < data.length; i += 4) {
+      if (data[i] > 0) { isEmpty = false; break; }
+    }
+    onSave(isEmpty ? null : canvas.toDataURL('image/png'));
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-50 bg-gray-950/95 flex flex-col animate-fade-in">
+      <div className="flex flex-wrap items-center gap-4 px-4 py-3 border-b border-gray-700 bg-gray-900">
+        <p className="text-sm font-semibold text-gray-200 flex-grow">Paint the area Refine is allowed to change</p>
+        <div className="flex gap-1">
+          {maskTools.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setTool(option.id)}
+              className={`px-3 py-1.5 rounded-md text-sm transition-all ${tool === option.id ? 'bg-blue-600 text-white font-semibold' : 'bg-gray-700 hover:bg-gray-600 text-gray-300'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {tool !== 'lasso' && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            Size
+            <input type="range" min={0.5} max={20} step={0.5} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} />
+          </label>
+        )}
+        <button onClick={handleClear} className="text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Clear</button>
+        <Button onClick={handleSave}>Use Mask</Button>
+        <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close mask editor">
+          <Icon icon="close" className="w-6 h-6" />
+        </button>
+      </div>
+      <div className="flex-grow flex items-center justify-center overflow-hidden p-4">
+        <div className="relative max-w-full max-h-full">
+          <img
+            src={imageUrl}
+            alt="Image to mask"
+            className="block max-w-full max-h-[calc(100vh-8rem)] select-none pointer-events-none"
+            onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          />
+          {size && (
+            <canvas
+              ref={canvasRef}
+              width={size.width}
+              height={size.height}
+              className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            />
+          )}
+          {size && lassoPreview.length > 1 && (
+            <svg viewBox={`0 0 ${size.width} ${size.height}`} className="absolute inset-0 w-full h-full pointer-events-none">
+              <polyline points={lassoPreview.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke="white" strokeWidth={2} vectorEffect="non-scaling-stroke" strokeDasharray="4 3" />
+            </svg>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
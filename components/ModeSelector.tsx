@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import type { FloorEffect, ProcessingMode, ProcessingOptions, PromptTemplate, PromptVariable, TurntableTint } from '../types';
+import { createCustomPromptTemplate, PROMPT_VARIABLES } from '../services/promptRegistry';
+import { Button } from './Button';
+import { Icon } from './Icon';
+
+interface ModeSelectorProps {
+  templates: PromptTemplate[];
+  processingMode: ProcessingMode;
+  onModeChange: (mode: ProcessingMode) => void;
+  options: ProcessingOptions;
+  onOptionsChange: (changes: Partial<ProcessingOptions>) => void;
+  onAddCustomMode: (template: PromptTemplate) => void;
+  onDeleteCustomMode: (mode: ProcessingMode) => void;
+  disabled: boolean;
+}
+
+const floorEffectOptions: { id: FloorEffect, label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'desaturate', label: 'Desaturate (B&W)' },
+  { id: 'tint', label: 'Colour Tint' },
+];
+
+const turntableTintOptions: { id: TurntableTint, label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'tint', label: 'Colour Tint' },
+];
+
+const tintSwatches: { label: string, color: string }[] = [
+  { label: 'Red', color: '#ff0000' },
+  { label: 'Yellow', color: '#ffd700' },
+];
+
+const floorVariables: PromptVariable[] = ['floorEffect', 'floorTintColor', 'floorTintOpacity'];
+const turntableVariables: PromptVariable[] = ['turntableTint', 'turntableTintColor', 'turntableTintOpacity'];
+
+const optionPillClasses = (selected: boolean) =>
+  `px-3 py-1.5 rounded-md text-sm cursor-pointer transition-all text-center ${selected ? 'bg-blue-600 text-white font-semibold' : 'bg-gray-600 hover:bg-gray-500 text-gray-300'}`;
+
+const TintControls: React.FC<{
+  color: string;
+  opacity: number;
+  onChange: (color: string, opacity: number) => void;
+  disabled: boolean;
+}> = ({ color, opacity, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-3 mt-3 text-sm text-gray-300">
+    <input type="color" value={color} onChange={(e) => onChange(e.target.value, opacity)} disabled={disabled} className="h-8 w-10 bg-transparent cursor-pointer" aria-label="Tint colour" />
+    {tintSwatches.map(swatch => (
+      <button
+        key={swatch.color}
+        onClick={() => onChange(swatch.color, opacity)}
+        disabled={disabled}
+        title={swatch.label}
+        aria-label={`${swatch.label} tint`}
+        className={`w-6 h-6 rounded-full border-2 ${color.toLowerCase() === swatch.color ? 'border-white' : 'border-gray-600'}`}
+        style={{ backgroundColor: swatch.color }}
+      />
+    ))}
+    <label className="flex items-center gap-2">
+      Opacity
+      <input type="range" min={1} max={100} value={opacity} onChange={(e) => onChange(color, Number(e.target.value))} disabled={disabled} />
+      <span className="w-10 text-right tabular-nums">{opacity}%</span>
+    </label>
+  </div>
+);
+
+const CustomModeForm: React.FC<{
+  onSave: (template: PromptTemplate) => void;
+  onCancel: () => void;
+}> = ({ onSave, onCancel }) => {
+  const [label, setLabel] = useState('');
+  const [description, setDescription] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [requiresBackground, setRequiresBackground] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = () => {
+    try {
+      onSave(createCustomPromptTemplate(label, description, instructions, requiresBackground));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the custom mode.');
+    }
+  };
+
+  const inputClasses = 'bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 block w-full p-2';
+
+  return (
+    <div className="p-4 rounded-lg border-2 border-dashed border-purple-500/60 bg-gray-700/50 space-y-3 animate-fade-in">
+      <input type="text" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Mode name, e.g. Showroom floor with logo wall" className={inputClasses} />
+      <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Short description (optional)" className={inputClasses} />
+      <textarea
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        rows={5}
+        placeholder={`One instruction per line. Steps are numbered automatically.\nVariables: ${PROMPT_VARIABLES.map(v => `{{${v}}}`).join(', ')}`}
+        className={inputClasses}
+      />
+      <label className="flex items-center space-x-3 cursor-pointer text-sm text-gray-300">
+        <input type="checkbox" checked={requiresBackground} onChange={(e) => setRequiresBackground(e.target.checked)} className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2" />
+        <span>Uses the uploaded background image</span>
+      </label>
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="text-sm text-gray-400 hover:text-white px-3">Cancel</button>
+        <Button onClick={handleSave}>Save Mode</Button>
+      </div>
+    </div>
+  );
+};
+
+export const ModeSelector: React.FC<ModeSelectorProps> = ({
+  templates,
+  processingMode,
+  onModeChange,
+  options,
+  onOptionsChange,
+  onAddCustomMode,
+  onDeleteCustomMode,
+  disabled,
+}) => {
+  const [isAddingMode, setIsAddingMode] = useState(false);
+
+  const renderOptions = (template: PromptTemplate) => (
+    <div className="mt-4 pt-4 border-t border-blue-500/30 space-y-4 animate-fade-in">
+      {floorVariables.some(v => template.variables.includes(v)) && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Floor Effect</h4>
+          <div className="flex flex-wrap gap-2">
+            {floorEffectOptions.map(option => (
+              <label key={option.id} className={optionPillClasses(options.floorEffect === option.id)}>
+                <input type="radio" name="floor-effect" value={option.id} checked={options.floorEffect === option.id} onChange={() => onOptionsChange({ floorEffect: option.id })} className="sr-only" disabled={disabled} aria-label={option.label}/>
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {options.floorEffect === 'tint' && (
+            <TintControls
+              color={options.floorTintColor}
+              opacity={options.floorTintOpacity}
+              onChange={(floorTintColor, floorTintOpacity) => onOptionsChange({ floorTintColor, floorTintOpacity })}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      )}
+      {template.variables.includes('matchReflections') && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Reflections</h4>
+          <label className="flex items-center space-x-3 cursor-pointer group p-2 -m-2 rounded-md hover:bg-gray-700/50">
+            <input type="checkbox" checked={options.matchReflections} onChange={(e) => onOptionsChange({ matchReflections: e.target.checked })} disabled={disabled} className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2" />
+            <span className="text-sm text-gray-300 group-hover:text-white">Match Car Reflections to Background</span>
+          </label>
+        </div>
+      )}
+      {turntableVariables.some(v => template.variables.includes(v)) && (
+        <div>
+          <h4 className="text-sm font-semibold text-gray-300 mb-2">Turntable Tint</h4>
+          <div className="flex flex-wrap gap-2">
+            {turntableTintOptions.map(option => (
+              <label key={option.id} className={optionPillClasses(options.turntableTint === option.id)}>
+                <input type="radio" name="turntable-tint" value={option.id} checked={options.turntableTint === option.id} onChange={() => onOptionsChange({ turntableTint: option.id })} className="sr-only" disabled={disabled || (option.id === 'none' && template.id === 'tint-turntable-only')} aria-label={option.label}/>
+                {option.label}
+              </label>
+            ))}
+          </div>
+          {options.turntableTint === 'tint' && (
+            <TintControls
+              color={options.turntableTintColor}
+              opacity={options.turntableTintOpacity}
+              onChange={(turntableTintColor, turntableTintOpacity) => onOptionsChange({ turntableTintColor, turntableTintOpacity })}
+              disabled={disabled}
+            />
+          )}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 gap-4">
+      {templates.map(template => {
+        const isSelected = processingMode === template.id;
+        return (
+          <div key={template.id} className={`p-4 rounded-lg border-2 transition-all ${isSelected ? 'border-blue-500 bg-blue-900/50' : 'border-gray-600 bg-gray-700/50 hover:border-gray-500'}`}>
+            <div className="flex items-start justify-between gap-4">
+              <label className="cursor-pointer flex-grow">
+                <input type="radio" name="processing-mode" value={template.id} checked={isSelected} onChange={() => onModeChange(template.id)} className="sr-only" disabled={disabled} aria-label={template.label} />
+                <div className="font-semibold text-white">
+                  {template.label}
+                  {!template.builtIn && <span className="ml-2 text-xs font-normal text-purple-300">Custom</span>}
+                </div>
+                {template.description && <p className="text-sm text-gray-400 mt-1">{template.description}</p>}
+              </label>
+              {!template.builtIn && (
+                <button onClick={() => onDeleteCustomMode(template.id)} disabled={disabled} className="text-gray-400 hover:text-red-400 disabled:opacity-50" aria-label={`Delete ${template.label}`}>
+                  <Icon icon="close" className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+            {isSelected && template.variables.length > 0 && renderOptions(template)}
+          </div>
+        );
+      })}
+      {isAddingMode ? (
+        <CustomModeForm
+          onSave={(template) => {
+            onAddCustomMode(template);
+            setIsAddingMode(false);
+          }}
+          onCancel={() => setIsAddingMode(false)}
+        />
+      ) : (
+        <button onClick={() => setIsAddingMode(true)} disabled={disabled} className="p-3 rounded-lg border-2 border-dashed border-gray-600 text-sm text-gray-400 hover:border-gray-500 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed">
+          + Add custom mode
+        </button>
+      )}
+    </div>
+  );
+};
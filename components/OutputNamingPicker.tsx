@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import type { FolderLayout, OutputNaming } from '../types';
+import type { NamingContext } from '../services/outputNaming';
+import { DEFAULT_OUTPUT_NAMING, findUnknownTokens, FOLDER_LAYOUTS, NAMING_TOKENS, renderFilename, renderFolder } from '../services/outputNaming';
+
+interface OutputNamingPickerProps {
+  naming: OutputNaming;
+  onChange: (naming: OutputNaming) => void;
+  // A real result to preview the template against; null before anything has been generated.
+  example: NamingContext | null;
+  disabled?: boolean;
+}
+
+export const OutputNamingPicker: React.FC<OutputNamingPickerProps> = ({ naming, onChange, example, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const unknownTokens = findUnknownTokens(naming.filenameTemplate);
+
+  const inputClasses = 'bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1.5';
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} disabled={disabled} className="text-xs text-gray-400 hover:text-white whitespace-nowrap">
+        Naming
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 z-20 w-96 p-4 rounded-lg border border-gray-600 bg-gray-800 shadow-xl space-y-3 text-sm text-gray-300 animate-fade-in">
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Filename</span>
+            <input
+              type="text"
+              value={naming.filenameTemplate}
+              onChange={(e) => onChange({ ...naming, filenameTemplate: e.target.value })}
+              placeholder={DEFAULT_OUTPUT_NAMING.filenameTemplate}
+              className={`${inputClasses} w-full font-mono`}
+            />
+          </label>
+          <div className="flex flex-wrap gap-1">
+            {NAMING_TOKENS.map(({ token, description }) => (
+              <button
+                key={token}
+                onClick={() => onChange({ ...naming, filenameTemplate: naming.filenameTemplate + token })}
+                title={description}
+                className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-xs font-mono text-gray-200"
+              >
+                {token}
+              </button>
+            ))}
+          </div>
+          {unknownTokens.length > 0 && (
+            <p className="text-xs text-yellow-400">Unknown {unknownTokens.length === 1 ? 'token' : 'tokens'} {unknownTokens.join(', ')} will be kept as written.</p>
+          )}
+          <label className="block space-y-1">
+            <span className="text-xs text-gray-400">Folders in the zip</span>
+            <select
+              value={naming.folderLayout}
+              onChange={(e) => onChange({ ...naming, folderLayout: e.target.value as FolderLayout })}
+              className={`${inputClasses} w-full`}
+            >
+              {FOLDER_LAYOUTS.map(layout => <option key={layout.id} value={layout.id}>{layout.label}</option>)}
+            </select>
+          </label>
+          {example && (
+            <p className="text-xs text-gray-400 break-all">
+              Example: <span className="font-mono text-gray-200">{renderFolder(naming.folderLayout, example, true)}{renderFilename(naming.filenameTemplate, example, 'png')}</span>
+            </p>
+          )}
+          <p className="text-xs text-gray-500">The zip also contains manifest.json and manifest.csv listing every source file, its output, mode, options and status.</p>
+          <div className="flex justify-between">
+            <button onClick={() => onChange(DEFAULT_OUTPUT_NAMING)} className="text-xs text-gray-400 hover:text-white">Reset</button>
+            <button onClick={() => setIsOpen(false)} className="text-sm text-gray-400 hover:text-white px-3">Done</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,87 @@
+import React, { useRef, useState } from 'react';
+import type { Preset } from '../types';
+import { Icon } from './Icon';
+
+interface PresetBarProps {
+  presets: Preset[];
+  onApply: (preset: Preset) => void;
+  onSave: (name: string) => Promise<void>;
+  onExport: (preset: Preset) => void;
+  onImport: (files: File[]) => void;
+  onDelete: (preset: Preset) => void;
+  disabled: boolean;
+}
+
+export const PresetBar: React.FC<PresetBarProps> = ({ presets, onApply, onSave, onExport, onImport, onDelete, disabled }) => {
+  const [isNaming, setIsNaming] = useState(false);
+  const [name, setName] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    await onSave(name.trim());
+    setName('');
+    setIsNaming(false);
+  };
+
+  const actionClasses = 'text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm font-semibold text-gray-300 mr-1">Presets</span>
+      {presets.length === 0 && !isNaming && (
+        <span className="text-xs text-gray-500">Save the current mode, options, background and export settings to reuse them.</span>
+      )}
+      {presets.map(preset => (
+        <div key={preset.id} className="group flex items-center rounded-full bg-gray-700 hover:bg-gray-600 text-sm text-gray-200">
+          <button
+            onClick={() => onApply(preset)}
+            disabled={disabled}
+            title={`Apply "${preset.name}"`}
+            className="pl-3 pr-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {preset.name}
+          </button>
+          <button onClick={() => onExport(preset)} className="px-1 text-gray-400 hover:text-white" aria-label={`Export ${preset.name}`}>
+            <Icon icon="download" className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => onDelete(preset)} disabled={disabled} className="pl-1 pr-2 text-gray-400 hover:text-red-400 disabled:opacity-30" aria-label={`Delete ${preset.name}`}>
+            <Icon icon="close" className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      {isNaming ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            value={name}
+            autoFocus
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+              if (e.key === 'Escape') setIsNaming(false);
+            }}
+            placeholder="Preset name"
+            className="bg-gray-900 border border-gray-600 text-white text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1"
+          />
+          <button onClick={handleSave} disabled={!name.trim()} className={actionClasses}>Save</button>
+          <button onClick={() => setIsNaming(false)} className="text-xs text-gray-400 hover:text-white">Cancel</button>
+        </div>
+      ) : (
+        <button onClick={() => setIsNaming(true)} disabled={disabled} className={actionClasses}>+ Save current</button>
+      )}
+      <button onClick={() => importInputRef.current?.click()} disabled={disabled} className={actionClasses}>Import</button>
+      <input
+        ref={importInputRef}
+        type="file"
+        accept="application/json,.json"
+        multiple
+        className="hidden"
+        onChange={(e) => {
+          onImport(Array.from(e.target.files ?? []));
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import type { ProjectSummary } from '../types';
+import { Icon } from './Icon';
+
+export type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+interface ProjectPanelProps {
+  projectId: string;
+  projectName: string;
+  saveState: SaveState;
+  projects: ProjectSummary[];
+  onRename: (name: string) => void;
+  onShowProjects: () => void;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  disabled: boolean;
+}
+
+const saveStateLabels: Record<SaveState, string> = {
+  idle: '',
+  saving: 'Saving...',
+  saved: 'All changes saved',
+  error: 'Could not save',
+};
+
+export const ProjectPanel: React.FC<ProjectPanelProps> = ({
+  projectId,
+  projectName,
+  saveState,
+  projects,
+  onRename,
+  onShowProjects,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onNew,
+  disabled,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const toggleList = () => {
+    if (!isOpen) onShowProjects();
+    setIsOpen(!isOpen);
+  };
+
+  const actionClasses = 'text-xs px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="max-w-4xl mx-auto mb-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <input
+          type="text"
+          value={projectName}
+          onChange={(e) => onRename(e.target.value)}
+          aria-label="Project name"
+          className="flex-grow min-w-0 bg-gray-800 border border-gray-700 text-white text-sm font-semibold rounded-md focus:ring-blue-500 focus:border-blue-500 p-2"
+        />
+        <span className={`text-xs ${saveState === 'error' ? 'text-red-400' : 'text-gray-500'}`}>{saveStateLabels[saveState]}</span>
+        <button onClick={toggleList} className="text-sm px-3 py-2 rounded-md bg-gray-800 border border-gray-700 hover:border-gray-500 text-gray-300">
+          Projects
+        </button>
+        <button onClick={onNew} disabled={disabled} className="text-sm px-3 py-2 rounded-md bg-gray-800 border border-gray-700 hover:border-gray-500 text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed">
+          New Project
+        </button>
+      </div>
+      {isOpen && (
+        <div className="mt-2 bg-gray-800 border border-gray-700 rounded-lg divide-y divide-gray-700 max-h-80 overflow-y-auto animate-fade-in">
+          {projects.length === 0 && (
+            <p className="text-sm text-gray-500 p-4 text-center">No saved projects yet.</p>
+          )}
+          {projects.map(project => (
+            <div key={project.id} className={`flex items-center gap-3 p-3 ${project.id === projectId ? 'bg-blue-900/30' : ''}`}>
+              <div className="flex-grow min-w-0">
+                <p className="text-sm font-semibold text-gray-200 truncate">{project.name}</p>
+                <p className="text-xs text-gray-500">
+                  {project.carImageCount} image{project.carImageCount !== 1 ? 's' : ''}, {project.doneCount} processed · updated {new Date(project.updatedAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={() => { onOpen(project.id); setIsOpen(false); }}
+                disabled={disabled || project.id === projectId}
+                className={actionClasses}
+              >
+                Open
+              </button>
+              <button onClick={() => onDuplicate(project.id)} disabled={disabled} className={actionClasses}>Duplicate</button>
+              <button
+                onClick={() => onDelete(project.id)}
+                disabled={disabled || project.id === projectId}
+                className="text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                aria-label={`Delete ${project.name}`}
+              >
+                <Icon icon="close" className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
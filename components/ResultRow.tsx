@@ -0,0 +1,60 @@
+import React from 'react';
+import type { ProcessedImage } from '../types';
+import { isReviewable, REVIEW_LABELS, STATUS_LABELS } from '../services/gallery';
+import { formatCost } from '../services/usage';
+
+interface ResultRowProps {
+  image: ProcessedImage;
+  onOpen: (imageId: string) => void;
+  isSelected: boolean;
+  onToggleSelect: (imageId: string) => void;
+}
+
+const REVIEW_CLASSES: Record<ProcessedImage['reviewState'], string> = {
+  unreviewed: 'text-gray-500',
+  approved: 'text-green-400',
+  rejected: 'text-red-400',
+};
+
+const STATUS_CLASSES: Partial<Record<ProcessedImage['status'], string>> = {
+  done: 'text-green-400',
+  'needs-review': 'text-yellow-300',
+  error: 'text-red-400',
+  processing: 'text-blue-300',
+};
+
+// Compact alternative to ImageCard for scanning long batches; everything else happens in the lightbox.
+export const ResultRow: React.FC<ResultRowProps> = ({ image, onOpen, isSelected, onToggleSelect }) => {
+  const canSelect = (image.status === 'done' || image.status === 'needs-review') && !!image.processedUrl;
+
+  return (
+    <div className={`flex items-center gap-3 p-2 rounded-md bg-gray-800 hover:bg-gray-700/70 ${isSelected ? 'ring-2 ring-blue-500' : ''}`}>
+      <input
+        type="checkbox"
+        checked={isSelected}
+        disabled={!canSelect}
+        onChange={() => onToggleSelect(image.id)}
+        aria-label={`Select ${image.originalFile.name} for bulk refinement`}
+        className="w-4 h-4 text-blue-600 bg-gray-700 border-gray-500 rounded focus:ring-blue-600 ring-offset-gray-800 focus:ring-2 disabled:opacity-30"
+      />
+      <button onClick={() => onOpen(image.id)} className="flex flex-grow items-center gap-3 min-w-0 text-left">
+        <img src={image.processedUrl ?? image.originalUrl} alt="" className={`w-16 h-12 object-cover rounded flex-shrink-0 ${image.processedUrl ? '' : 'opacity-40'}`} />
+        <span className="min-w-0 flex-grow">
+          <span className="block text-sm text-gray-200 truncate" title={image.originalFile.name}>
+            {image.originalFile.name}
+            {image.isReference && <span className="ml-2 text-xs text-blue-300">Reference</span>}
+          </span>
+          {image.backgroundFile && <span className="block text-xs text-gray-500 truncate">on {image.backgroundFile.name}</span>}
+          {image.error && <span className="block text-xs text-red-400/80 truncate" title={image.error}>{image.error}</span>}
+        </span>
+      </button>
+      {isReviewable(image) && (
+        <span className={`text-xs w-20 text-right flex-shrink-0 ${REVIEW_CLASSES[image.reviewState]}`} title={image.reviewNote}>
+          {REVIEW_LABELS[image.reviewState]}
+        </span>
+      )}
+      {image.usage && image.usage.calls > 0 && <span className="text-xs text-gray-500 flex-shrink-0">{formatCost(image.usage.costUsd)}</span>}
+      <span className={`text-xs font-semibold w-24 text-right flex-shrink-0 ${STATUS_CLASSES[image.status] ?? 'text-gray-400'}`}>{STATUS_LABELS[image.status]}</span>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import type { ReviewState } from '../types';
+
+interface ReviewControlsProps {
+  reviewState: ReviewState;
+  note: string;
+  onReview: (reviewState: ReviewState) => void;
+  onNoteChange: (note: string) => void;
+  shortcuts?: boolean;
+}
+
+const REVIEW_BUTTONS: { state: ReviewState; label: string; shortcut: string; activeClassName: string }[] = [
+  { state: 'approved', label: 'Approve', shortcut: 'A', activeClassName: 'bg-green-600 text-white' },
+  { state: 'rejected', label: 'Reject', shortcut: 'X', activeClassName: 'bg-red-600 text-white' },
+];
+
+// Clicking the active decision again takes it back to unreviewed.
+export const ReviewControls: React.FC<ReviewControlsProps> = ({ reviewState, note, onReview, onNoteChange, shortcuts = false }) => {
+  const [draftNote, setDraftNote] = useState(note);
+
+  useEffect(() => setDraftNote(note), [note]);
+
+  // The note is saved when the field loses focus rather than on every keystroke.
+  const commitNote = () => {
+    if (draftNote.trim() !== note) onNoteChange(draftNote.trim());
+  };
+
+  return (
+    <div className="flex items-center gap-2 w-full">
+      {REVIEW_BUTTONS.map(button => (
+        <button
+          key={button.state}
+          onClick={() => onReview(reviewState === button.state ? 'unreviewed' : button.state)}
+          aria-pressed={reviewState === button.state}
+          className={`flex-shrink-0 text-xs px-2 py-1 rounded ${reviewState === button.state ? button.activeClassName : 'bg-gray-700 hover:bg-gray-600 text-gray-200'}`}
+        >
+          {button.label}{shortcuts && <kbd className="ml-1 opacity-60">{button.shortcut}</kbd>}
+        </button>
+      ))}
+      <input
+        type="text"
+        value={draftNote}
+        onChange={(e) => setDraftNote(e.target.value)}
+        onBlur={commitNote}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        placeholder={reviewState === 'rejected' ? 'Why was it rejected?' : 'Reviewer note'}
+        aria-label="Reviewer note"
+        className="flex-grow min-w-0 bg-gray-900 border border-gray-600 text-white text-xs rounded-md focus:ring-blue-500 focus:border-blue-500 p-1"
+      />
+    </div>
+  );
+};
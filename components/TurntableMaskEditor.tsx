@@ -0,0 +1,127 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { TurntableEllipse } from '../types';
+import { proposeTurntableEllipse } from '../services/turntableTint';
+
+interface TurntableMaskEditorProps {
+  images: File[];
+  ellipse: TurntableEllipse;
+  onChange: (ellipse: TurntableEllipse) => void;
+  tintColor: string | null;
+  tintOpacity: number;
+  disabled: boolean;
+}
+
+type DragHandle = 'move' | 'rx' | 'ry';
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const TurntableMaskEditor: React.FC<TurntableMaskEditorProps> = ({ images, ellipse, onChange, tintColor, tintOpacity, disabled }) => {
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ handle: DragHandle; startX: number; startY: number; start: TurntableEllipse } | null>(null);
+
+  const previewFile = images[Math.min(previewIndex, images.length - 1)];
+  const previewUrl = useMemo(() => previewFile ? URL.createObjectURL(previewFile) : null, [previewFile]);
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+    };
+  }, [previewUrl]);
+
+  const handleAutoDetect = async () => {
+    if (!previewFile) return;
+    setIsDetecting(true);
+    try {
+      onChange(await proposeTurntableEllipse(previewFile));
+    } catch (error) {
+      console.error('Turntable detection failed:', error);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  const handlePointerDown = (handle: DragHandle) => (e: React.PointerEvent) => {
+    if (disabled) return;
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { handle, startX: e.clientX, startY: e.clientY, start: ellipse };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame) return;
+    const rect = frame.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    if (drag.handle === 'move') {
+      onChange({ ...drag.start, cx: clamp(drag.start.cx + dx, 0, 1), cy: clamp(drag.start.cy + dy, 0, 1) });
+    } else if (drag.handle === 'rx') {
+      onChange({ ...drag.start, rx: clamp(drag.start.rx + dx, 0.02, 1) });
+    } else {
+      onChange({ ...drag.start, ry: clamp(drag.start.ry + dy, 0.01, 1) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  if (!previewUrl) {
+    return <p className="text-sm text-gray-500">Upload car images to position the turntable mask.</p>;
+  }
+
+  const handleClasses = 'absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-white border-2 border-blue-500 shadow';
+
+  return (
+    <div className="space-y-2">
+      <div
+        ref={frameRef}
+        className="relative select-none touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <img src={previewUrl} alt={previewFile.name} className="w-full h-auto rounded pointer-events-none" />
+        <svg viewBox="0 0 1 1" preserveAspectRatio="none" className="absolute inset-0 w-full h-full">
+          <ellipse
+            cx={ellipse.cx}
+            cy={ellipse.cy}
+            rx={ellipse.rx}
+            ry={ellipse.ry}
+            fill={tintColor ?? 'transparent'}
+            fillOpacity={tintOpacity}
+            stroke="rgb(59, 130, 246)"
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            strokeDasharray="6 4"
+            className={disabled ? '' : 'cursor-move'}
+            onPointerDown={handlePointerDown('move')}
+          />
+        </svg>
+        {!disabled && (
+          <>
+            <div className={`${handleClasses} cursor-ew-resize`} style={{ left: `${(ellipse.cx + ellipse.rx) * 100}%`, top: `${ellipse.cy * 100}%` }} onPointerDown={handlePointerDown('rx')} />
+            <div className={`${handleClasses} cursor-ns-resize`} style={{ left: `${ellipse.cx * 100}%`, top: `${(ellipse.cy + ellipse.ry) * 100}%` }} onPointerDown={handlePointerDown('ry')} />
+          </>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+        <button onClick={handleAutoDetect} disabled={disabled || isDetecting} className="px-2 py-1 rounded bg-gray-600 hover:bg-gray-500 text-gray-200 disabled:opacity-50">
+          {isDetecting ? 'Detecting...' : 'Auto-detect'}
+        </button>
+        {images.length > 1 && (
+          <label className="flex items-center gap-2">
+            Preview
+            <select value={previewIndex} onChange={(e) => setPreviewIndex(Number(e.target.value))} className="bg-gray-900 border border-gray-600 text-white rounded p-1 max-w-[12rem]">
+              {images.map((file, index) => <option key={file.name + file.lastModified} value={index}>{file.name}</option>)}
+            </select>
+          </label>
+        )}
+        <span>Drag the ellipse to move it, the handles to resize. The same mask is used for every image in the batch.</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import type { IngestOutcome, IngestReportEntry } from '../services/ingestion';
+import { Icon } from './Icon';
+
+interface UploadReportProps {
+  title: string;
+  entries: IngestReportEntry[];
+  onDismiss: () => void;
+}
+
+const OUTCOME_STYLES: Record<IngestOutcome, { label: string; className: string }> = {
+  accepted: { label: 'Accepted', className: 'text-green-400' },
+  converted: { label: 'Converted', className: 'text-blue-300' },
+  rejected: { label: 'Rejected', className: 'text-red-400' },
+};
+
+export const UploadReport: React.FC<UploadReportProps> = ({ title, entries, onDismiss }) => {
+  const counts: Record<IngestOutcome, number> = { accepted: 0, converted: 0, rejected: 0 };
+  entries.forEach(entry => counts[entry.outcome]++);
+  // Rejections are what operators need to act on, so the list starts open when there are any.
+  const [isExpanded, setIsExpanded] = useState(counts.rejected > 0);
+
+  return (
+    <div className={`rounded-lg border p-3 text-sm ${counts.rejected > 0 ? 'border-red-800 bg-red-900/20' : 'border-gray-700 bg-gray-800/60'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="text-left text-gray-300 hover:text-white">
+          <span className="font-semibold">{title}:</span>{' '}
+          {(Object.keys(OUTCOME_STYLES) as IngestOutcome[]).filter(outcome => counts[outcome] > 0).map((outcome, index) => (
+            <span key={outcome} className={OUTCOME_STYLES[outcome].className}>
+              {index > 0 && ', '}{counts[outcome]} {OUTCOME_STYLES[outcome].label.toLowerCase()}
+            </span>
+          ))}
+          <span className="ml-2 text-xs text-gray-500">{isExpanded ? 'Hide details' : 'Show details'}</span>
+        </button>
+        <button onClick={onDismiss} className="text-gray-400 hover:text-white" aria-label="Dismiss upload report">
+          <Icon icon="close" className="w-4 h-4" />
+        </button>
+      </div>
+      {isExpanded && (
+        <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 text-xs">
+          {entries.map((entry, index) => (
+            <li key={`${entry.name}-${index}`} className="flex gap-2">
+              <span className={`w-16 flex-shrink-0 font-semibold ${OUTCOME_STYLES[entry.outcome].className}`}>{OUTCOME_STYLES[entry.outcome].label}</span>
+              <span className="text-gray-300 truncate max-w-[45%]" title={entry.name}>{entry.name}</span>
+              <span className="text-gray-500">{entry.reason}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
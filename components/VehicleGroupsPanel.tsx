@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import type { Preset, VehicleOverride } from '../types';
+import { DEFAULT_VEHICLE_PATTERN, findUnknownPatternTokens, groupByVehicle, isValidVehiclePattern, VEHICLE_PATTERN_TOKENS } from '../services/vehicles';
+
+interface VehicleGroupsPanelProps {
+  pattern: string;
+  onPatternChange: (pattern: string) => void;
+  carImages: File[];
+  backgroundImages: File[];
+  presets: Preset[];
+  overrides: Record<string, VehicleOverride>;
+  onOverrideChange: (stock: string, override: VehicleOverride) => void;
+  disabled: boolean;
+}
+
+const selectClasses = 'bg-gray-900 border border-gray-600 text-white text-xs rounded-md focus:ring-blue-500 focus:border-blue-500 p-1 max-w-[12rem] disabled:opacity-50';
+
+export const VehicleGroupsPanel: React.FC<VehicleGroupsPanelProps> = ({ pattern, onPatternChange, carImages, backgroundImages, presets, overrides, onOverrideChange, disabled }) => {
+  const groups = useMemo(() => groupByVehicle(carImages, (file: File) => file.name, pattern), [carImages, pattern]);
+  const vehicles = groups.filter(group => group.stock !== null);
+  const unmatchedCount = groups.find(group => group.stock === null)?.items.length ?? 0;
+  const unknownTokens = findUnknownPatternTokens(pattern);
+
+  const updateOverride = (stock: string, changes: Partial<VehicleOverride>) =>
+    onOverrideChange(stock, { backgroundName: null, presetId: null, ...overrides[stock], ...changes });
+
+  return (
+    <div className="p-4 rounded-lg border border-gray-600 bg-gray-700/30 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="vehicle-pattern" className="text-gray-300">Vehicle filename pattern</label>
+        <input
+          id="vehicle-pattern"
+          type="text"
+          value={pattern}
+          onChange={(e) => onPatternChange(e.target.value)}
+          placeholder={DEFAULT_VEHICLE_PATTERN}
+          disabled={disabled}
+          className="w-48 bg-gray-900 border border-gray-600 text-white font-mono text-sm rounded-md focus:ring-blue-500 focus:border-blue-500 p-1"
+        />
+        <span className="text-xs text-gray-500">
+          {VEHICLE_PATTERN_TOKENS.map(({ token, description }) => (
+            <span key={token} title={description} className="font-mono mr-2">{token}</span>
+          ))}
+        </span>
+      </div>
+      {!isValidVehiclePattern(pattern) ? (
+        <p className="text-xs text-yellow-400">The pattern needs {'{stock}'} exactly once, and {'{shot}'} at most once; photos are not grouped until it does.</p>
+      ) : unknownTokens.length > 0 && (
+        <p className="text-xs text-yellow-400">Unknown {unknownTokens.length === 1 ? 'token' : 'tokens'} {unknownTokens.join(', ')} will be matched as written.</p>
+      )}
+      <p className="text-xs text-gray-400">
+        {vehicles.length} vehicle{vehicles.length !== 1 ? 's' : ''}
+        {unmatchedCount > 0 && `, ${unmatchedCount} photo${unmatchedCount !== 1 ? 's' : ''} not matching the pattern`}
+      </p>
+      {vehicles.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto divide-y divide-gray-700">
+          {vehicles.map(({ stock, items }) => {
+            const override = overrides[stock!];
+            return (
+              <li key={stock} className="flex flex-wrap items-center gap-2 py-1.5">
+                <span className="font-mono text-gray-200 flex-grow">{stock}</span>
+                <span className="text-xs text-gray-500 w-20">{items.length} photo{items.length !== 1 ? 's' : ''}</span>
+                <select
+                  value={override?.presetId ?? ''}
+                  onChange={(e) => updateOverride(stock!, { presetId: e.target.value || null })}
+                  disabled={disabled}
+                  aria-label={`Preset for ${stock}`}
+                  className={selectClasses}
+                >
+                  <option value="">Current settings</option>
+                  {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+                {backgroundImages.length > 0 && (
+                  <select
+                    value={override?.backgroundName ?? ''}
+                    onChange={(e) => updateOverride(stock!, { backgroundName: e.target.value || null })}
+                    disabled={disabled}
+                    aria-label={`Background for ${stock}`}
+                    className={selectClasses}
+                  >
+                    <option value="">Default backgrounds</option>
+                    {backgroundImages.map(file => <option key={file.name} value={file.name}>{file.name}</option>)}
+                  </select>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+const DB_NAME = 'autoshade-studio';
+// v2 added the presets store.
+const DB_VERSION = 2;
+
+export const PROJECT_STORE = 'projects';
+// Summaries are kept in their own store so the project list never has to load image data.
+export const SUMMARY_STORE = 'projectSummaries';
+export const PRESET_STORE = 'presets';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const storeName of [PROJECT_STORE, SUMMARY_STORE, PRESET_STORE]) {
+          if (!db.objectStoreNames.contains(storeName)) {
+            db.createObjectStore(storeName, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version open in another tab instead of blocking its upgrade.
+        db.onversionchange = () => {
+          db.close();
+          databasePromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        databasePromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  transaction.oncomplete = () => resolve();
+  transaction.onerror = () => reject(transaction.error);
+  transaction.onabort = () => reject(transaction.error ?? new Error('Transaction was aborted.'));
+});
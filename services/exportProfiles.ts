@@ -0,0 +1,186 @@
+import type { ExportFormat, ExportProfile } from '../types';
+
+export const ORIGINAL_EXPORT_PROFILE_ID = 'original';
+
+export const BUILT_IN_EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: ORIGINAL_EXPORT_PROFILE_ID,
+    name: 'Original (as generated)',
+    builtIn: true,
+    size: null,
+    fit: 'pad',
+    padColor: '#ffffff',
+    format: null,
+    quality: 0.92,
+    maxFileSizeKB: null,
+  },
+  {
+    id: 'autotrader-4x3-jpeg-1600',
+    name: 'AutoTrader 4:3 JPEG 1600px',
+    builtIn: true,
+    size: { width: 1600, height: 1200 },
+    fit: 'crop',
+    padColor: '#ffffff',
+    format: 'image/jpeg',
+    quality: 0.9,
+    maxFileSizeKB: 1024,
+  },
+  {
+    id: 'web-16x9-webp-1920',
+    name: 'Website 16:9 WebP 1920px',
+    builtIn: true,
+    size: { width: 1920, height: 1080 },
+    fit: 'crop',
+    padColor: '#ffffff',
+    format: 'image/webp',
+    quality: 0.85,
+    maxFileSizeKB: 500,
+  },
+  {
+    id: 'square-png-2000',
+    name: 'Square 1:1 PNG 2000px (padded)',
+    builtIn: true,
+    size: { width: 2000, height: 2000 },
+    fit: 'pad',
+    padColor: '#ffffff',
+    format: 'image/png',
+    quality: 1,
+    maxFileSizeKB: null,
+  },
+];
+
+export const FORMAT_EXTENSIONS: Record<ExportFormat, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const MIN_QUALITY = 0.4;
+const QUALITY_STEP = 0.08;
+
+// Only lossy formats can trade quality for size, so a size limit needs one of them.
+export const supportsFileSizeLimit = (format: ExportFormat | null): boolean =>
+  format === 'image/jpeg' || format === 'image/webp';
+
+export const hasUnenforceableSizeLimit = (profile: ExportProfile): boolean =>
+  profile.maxFileSizeKB !== null && !supportsFileSizeLimit(profile.format);
+
+export const getExtensionForMimeType = (mimeType: string): string =>
+  FORMAT_EXTENSIONS[mimeType as ExportFormat] ?? (mimeType.split('/')[1] || 'png');
+
+export const findExportProfile = (id: string, customProfiles: ExportProfile[] = []): ExportProfile =>
+  [...BUILT_IN_EXPORT_PROFILES, ...customProfiles].find(p => p.id === id) ?? BUILT_IN_EXPORT_PROFILES[0];
+
+const canvasToBlob = (canvas: HTMLCanvasElement, format: ExportFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob);
+      else reject(new Error(`This browser cannot encode ${format}.`));
+    }, format, quality);
+  });
+
+/** Draws the source into the profile's exact frame, cropping or padding when the aspect ratio differs. */
+const drawToProfile = (source: ImageBitmap, profile: ExportProfile): HTMLCanvasElement => {
+  const width = profile.size?.width ?? source.width;
+  const height = profile.size?.height ?? source.height;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.imageSmoothingQuality = 'high';
+
+  const scale = profile.fit === 'crop'
+    ? Math.max(width / source.width, height / source.height)
+    : Math.min(width / source.width, height / source.height);
+  const drawWidth = source.width * scale;
+  const drawHeight = source.height * scale;
+
+  if (profile.fit === 'pad' || profile.format === 'image/jpeg') {
+    // JPEG has no alpha, so transparent areas are filled too.
+    ctx.fillStyle = profile.padColor;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.drawImage(source, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas;
+};
+
+/**
+ * Re-encodes an image for the given profile. Lossy formats step the quality down until the
+ * file fits `maxFileSizeKB`; if it never does, the smallest attempt is returned.
+ */
+export const applyExportProfile = async (source: Blob, profile: ExportProfile): Promise<Blob> => {
+  if (!profile.size && !profile.format) {
+    return source;
+  }
+  const bitmap = await createImageBitmap(source);
+  const canvas = drawToProfile(bitmap, profile);
+  const format = profile.format ?? (source.type as ExportFormat);
+  const maxBytes = profile.maxFileSizeKB ? profile.maxFileSizeKB * 1024 : Infinity;
+
+  let quality = profile.quality;
+  let blob = await canvasToBlob(canvas, format, quality);
+  while (supportsFileSizeLimit(format) && blob.size > maxBytes && quality > MIN_QUALITY) {
+    quality = Math.max(MIN_QUALITY, quality - QUALITY_STEP);
+    blob = await canvasToBlob(canvas, format, quality);
+  }
+  if (blob.size > maxBytes) {
+    console.warn(`Export for profile "${profile.name}" is ${Math.round(blob.size / 1024)}KB, above the ${profile.maxFileSizeKB}KB limit.`);
+  }
+  return blob;
+};
+
+/** Checks a custom profile read from a file, throwing if any field would break export. */
+export const parseCustomExportProfile = (value: unknown): ExportProfile => {
+  const profile = value as Partial<ExportProfile> | null;
+  const isPositive = (field: unknown): field is number => typeof field === 'number' && Number.isFinite(field) && field > 0;
+  if (!profile || typeof profile !== 'object' || typeof profile.id !== 'string' || !profile.id.startsWith('custom:')
+    || typeof profile.name !== 'string' || !profile.name.trim()) {
+    throw new Error('The export profile has no valid id or name.');
+  }
+  const { size, format, quality, maxFileSizeKB } = profile;
+  if ((size !== null && !(size && Number.isInteger(size.width) && Number.isInteger(size.height) && isPositive(size.width) && isPositive(size.height)))
+    || (profile.fit !== 'crop' && profile.fit !== 'pad') || typeof profile.padColor !== 'string'
+    || (format !== null && !(format && format in FORMAT_EXTENSIONS))
+    || !isPositive(quality) || quality > 1 || (maxFileSizeKB !== null && !isPositive(maxFileSizeKB))) {
+    throw new Error(`The export profile "${profile.name}" has invalid settings.`);
+  }
+  if (maxFileSizeKB !== null && !supportsFileSizeLimit(format)) {
+    throw new Error(`The export profile "${profile.name}" has a file size limit, which needs JPEG or WebP.`);
+  }
+  return {
+    id: profile.id,
+    name: profile.name.trim(),
+    builtIn: false,
+    size: size ? { width: size.width, height: size.height } : null,
+    fit: profile.fit,
+    padColor: profile.padColor,
+    format: format ?? null,
+    quality,
+    maxFileSizeKB: maxFileSizeKB ?? null,
+  };
+};
+
+export const dataUrlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  return response.blob();
+};
+
+// --- Custom profile persistence ---
+const CUSTOM_PROFILES_STORAGE_KEY = 'autoshade.customExportProfiles';
+
+export const loadCustomExportProfiles = (): ExportProfile[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_PROFILES_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as ExportProfile[] : [];
+  } catch (error) {
+    console.error('Failed to load custom export profiles:', error);
+    return [];
+  }
+};
+
+export const saveCustomExportProfiles = (profiles: ExportProfile[]) => {
+  localStorage.setItem(CUSTOM_PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+};
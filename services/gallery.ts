@@ -0,0 +1,98 @@
+import type { ProcessedImage, ProcessingStatus, ReviewState } from '../types';
+import { getCurrentRevision } from './revisions';
+
+export type GalleryDensity = 'grid' | 'list';
+// 'batch' keeps the order results were queued in, with each car's variants grouped together.
+export type GallerySort = 'batch' | 'name' | 'completed';
+export type StatusFilter = 'all' | 'done' | 'needs-review' | 'error' | 'active' | 'cancelled';
+export type ReviewFilter = 'all' | ReviewState;
+
+export interface GalleryView {
+  density: GalleryDensity;
+  statusFilter: StatusFilter;
+  reviewFilter: ReviewFilter;
+  sort: GallerySort;
+  search: string;
+}
+
+export const DEFAULT_GALLERY_VIEW: GalleryView = {
+  density: 'grid',
+  statusFilter: 'all',
+  reviewFilter: 'all',
+  sort: 'batch',
+  search: '',
+};
+
+export const STATUS_FILTERS: { id: StatusFilter; label: string; statuses: ProcessingStatus[] | null }[] = [
+  { id: 'all', label: 'All', statuses: null },
+  { id: 'done', label: 'Done', statuses: ['done'] },
+  { id: 'needs-review', label: 'Needs review', statuses: ['needs-review'] },
+  { id: 'error', label: 'Failed', statuses: ['error'] },
+  { id: 'active', label: 'In progress', statuses: ['pending', 'processing', 'paused'] },
+  { id: 'cancelled', label: 'Cancelled', statuses: ['cancelled'] },
+];
+
+export const STATUS_LABELS: Record<ProcessingStatus, string> = {
+  pending: 'Waiting',
+  processing: 'Processing',
+  paused: 'Paused',
+  done: 'Done',
+  'needs-review': 'Needs review',
+  error: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+export const REVIEW_LABELS: Record<ReviewState, string> = {
+  unreviewed: 'Unreviewed',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+// Failed, cancelled and flagged results can be regenerated without touching the rest of the batch.
+export const RETRYABLE_STATUSES: ProcessingStatus[] = ['error', 'cancelled', 'needs-review'];
+
+/** Results a reviewer rejected can be regenerated too, whatever their processing status. */
+export const isRetryable = (image: ProcessedImage): boolean =>
+  RETRYABLE_STATUSES.includes(image.status) || (image.status === 'done' && image.reviewState === 'rejected');
+
+/** Only finished results with something to look at can be approved or rejected. */
+export const isReviewable = (image: ProcessedImage): boolean =>
+  (image.status === 'done' || image.status === 'needs-review') && !!image.processedUrl;
+
+export const GALLERY_SORTS: { id: GallerySort; label: string }[] = [
+  { id: 'batch', label: 'Batch order' },
+  { id: 'name', label: 'Filename' },
+  { id: 'completed', label: 'Recently completed' },
+];
+
+/** When the revision on show was produced, or null for results that have none yet. */
+export const getCompletedAt = (image: ProcessedImage): number | null => getCurrentRevision(image)?.createdAt ?? null;
+
+export const matchesStatusFilter = (image: ProcessedImage, filter: StatusFilter): boolean => {
+  const statuses = STATUS_FILTERS.find(f => f.id === filter)?.statuses;
+  return !statuses || statuses.includes(image.status);
+};
+
+export const applyGalleryView = (images: ProcessedImage[], view: GalleryView): ProcessedImage[] => {
+  const search = view.search.trim().toLowerCase();
+  const visible = images.filter(image => matchesStatusFilter(image, view.statusFilter)
+    && (view.reviewFilter === 'all' || (isReviewable(image) && image.reviewState === view.reviewFilter))
+    && (!search || image.originalFile.name.toLowerCase().includes(search) || !!image.backgroundFile?.name.toLowerCase().includes(search)));
+
+  if (view.sort === 'name') {
+    return visible.sort((a, b) => a.originalFile.name.localeCompare(b.originalFile.name, undefined, { numeric: true })
+      || (a.backgroundFile?.name ?? '').localeCompare(b.backgroundFile?.name ?? ''));
+  }
+  if (view.sort === 'completed') {
+    // Newest first; anything not finished yet goes to the end in batch order.
+    return visible.sort((a, b) => {
+      const completedA = getCompletedAt(a);
+      const completedB = getCompletedAt(b);
+      if (completedA === null || completedB === null) {
+        return (completedA === null ? 1 : 0) - (completedB === null ? 1 : 0);
+      }
+      return completedB - completedA;
+    });
+  }
+  return visible;
+};
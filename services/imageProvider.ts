@@ -0,0 +1,40 @@
+import type { ApiUsage, ImageProviderId, ProcessingOptions, PromptTemplate } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+
+export interface ProviderResult {
+  url: string;
+  // Null for providers that do not bill per call.
+  usage: ApiUsage | null;
+}
+
+export interface ImageProvider {
+  id: ImageProviderId;
+  label: string;
+  description: string;
+  // Billed model, used to estimate a call's cost before making it; null when calls are free.
+  model: string | null;
+  processCarImage: (
+    carImageFile: File,
+    backgroundImageFile: File | null,
+    template: PromptTemplate,
+    options?: Partial<ProcessingOptions>,
+    // An approved result from the same vehicle whose lighting, shadows and framing should be matched.
+    referenceImageFile?: File | null,
+    signal?: AbortSignal
+  ) => Promise<ProviderResult>;
+  // `maskFile` is white where changes are allowed and black elsewhere.
+  correctImage: (processedImageFile: File, correctionPrompt: string, maskFile?: File, signal?: AbortSignal) => Promise<ProviderResult>;
+}
+
+export const IMAGE_PROVIDERS: ImageProvider[] = [geminiProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_ID: ImageProviderId = process.env.API_KEY ? 'gemini' : 'mock';
+
+export const getImageProvider = (id: ImageProviderId): ImageProvider => {
+  const provider = IMAGE_PROVIDERS.find(p => p.id === id);
+  if (!provider) {
+    throw new Error(`Unknown image provider: ${id}`);
+  }
+  return provider;
+};
@@ -0,0 +1,296 @@
+import type { ExportFormat } from '../types';
+import { applyExportProfile, FORMAT_EXTENSIONS } from './exportProfiles';
+
+export const MAX_UPLOAD_FILES = 50;
+// The model's output tops out around 3000px, so anything larger only slows requests down.
+export const MAX_INPUT_LONGEST_SIDE = 3072;
+export const MAX_INPUT_BYTES = 10 * 1024 * 1024;
+// Beyond this a file is not worth decoding in the browser at all.
+const MAX_READABLE_BYTES = 100 * 1024 * 1024;
+const RESAMPLE_QUALITY = 0.92;
+// Files still over MAX_INPUT_BYTES are shrunk by this factor at a time, down to MIN_SHRUNK_LONGEST_SIDE.
+const SHRINK_STEP = 0.75;
+const MIN_SHRUNK_LONGEST_SIDE = 1024;
+
+const MIME_TYPES_BY_EXTENSION: Record<string, ExportFormat> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+};
+export const ACCEPTED_IMAGE_TYPES: string[] = ['image/jpeg', 'image/png', 'image/webp'];
+
+export type IngestOutcome = 'accepted' | 'converted' | 'rejected';
+
+export interface IngestReportEntry {
+  // Path as the user would recognise it, including the folder or archive it came from.
+  name: string;
+  outcome: IngestOutcome;
+  reason: string;
+}
+
+export interface IngestResult {
+  files: File[];
+  report: IngestReportEntry[];
+}
+
+interface Candidate {
+  file: File;
+  name: string;
+}
+
+// Fingerprints of the files as uploaded, kept for the prepared files so a photo that was downscaled
+// is still recognised when the same original is uploaded again.
+const sourceHashes = new WeakMap<File, string>();
+
+const hashFile = async (file: Blob): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const getSourceHash = async (file: File): Promise<string> => {
+  let hash = sourceHashes.get(file);
+  if (!hash) {
+    hash = await hashFile(file);
+    sourceHashes.set(file, hash);
+  }
+  return hash;
+};
+
+const getExtension = (name: string): string => name.split('.').pop()?.toLowerCase() ?? '';
+
+const formatMegabytes = (bytes: number): string => `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+
+const isArchive = (file: File): boolean =>
+  file.type === 'application/zip' || file.type === 'application/x-zip-compressed' || getExtension(file.name) === 'zip';
+
+// Finder and Explorer metadata travels inside archives and folders but is never a photo. Inside a
+// folder or archive it is left out of the report, since the user never picked those files themselves.
+const isSystemFile = (path: string): boolean =>
+  path.startsWith('__MACOSX/') || path.split('/').some(segment => segment.startsWith('.')) || /(^|\/)Thumbs\.db$/i.test(path);
+
+// Files from folders and archives often arrive without a MIME type, so fall back to the extension.
+const withImageType = (file: File, name: string): File => {
+  const type = file.type || MIME_TYPES_BY_EXTENSION[getExtension(name)];
+  return type && type !== file.type ? new File([file], file.name, { type, lastModified: file.lastModified }) : file;
+};
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> => new Promise((resolve, reject) => entry.file(resolve, reject));
+
+const readDirectoryEntries = async (entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns children in batches and signals the end with an empty one.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+};
+
+// Entries that cannot be read (moved or deleted mid-drop, or blocked by permissions) are reported rather than thrown.
+const readEntry = async (entry: FileSystemEntry, report: IngestReportEntry[]): Promise<File[]> => {
+  const name = entry.fullPath.replace(/^\//, '');
+  try {
+    if (entry.isFile) {
+      return isSystemFile(name) ? [] : [await readFileEntry(entry as FileSystemFileEntry)];
+    }
+    if (entry.isDirectory) {
+      const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+      return (await Promise.all(children.map(child => readEntry(child, report)))).flat();
+    }
+  } catch (error) {
+    console.error(`Failed to read dropped ${name}:`, error);
+    report.push({ name, outcome: 'rejected', reason: `The ${entry.isDirectory ? 'folder' : 'file'} could not be read. It may have been moved, or access was denied.` });
+  }
+  return [];
+};
+
+/** Returns every file in a drop, descending into dropped folders, with a report entry for anything that could not be read. */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<IngestResult> => {
+  // Entries must be taken before the first await, while the drop event's data is still readable.
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) {
+    return { files: Array.from(dataTransfer.files), report: [] };
+  }
+  const report: IngestReportEntry[] = [];
+  try {
+    const files = (await Promise.all(entries.map(entry => readEntry(entry, report)))).flat();
+    return { files: files.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true })), report };
+  } catch (error) {
+    console.error('Failed to read dropped files:', error);
+    return { files: [], report: [...report, { name: 'Dropped files', outcome: 'rejected', reason: 'The drop could not be read.' }] };
+  }
+};
+
+const expandArchive = async (archive: File): Promise<Candidate[]> => {
+  if (!window.JSZip) {
+    throw new Error('The zip library is not loaded.');
+  }
+  const zip = await window.JSZip.loadAsync(archive);
+  const paths = (Object.keys(zip.files) as string[])
+    .filter(path => !zip.files[path].dir && !isSystemFile(path))
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  return Promise.all(paths.map(async path => {
+    const blob: Blob = await zip.files[path].async('blob');
+    const filename = path.split('/').pop()!;
+    return { file: withImageType(new File([blob], filename, { lastModified: zip.files[path].date?.getTime() }), filename), name: `${archive.name}/${path}` };
+  }));
+};
+
+// Reads the EXIF orientation tag (1-8) from a JPEG, or 1 when there is none.
+const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment starting with "Exif\0\0".
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const littleEndian = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+      if (ifd + 2 > view.byteLength) return 1;
+      const count = view.getUint16(ifd, littleEndian);
+      for (let i = 0; i < count; i++) {
+        const tag = ifd + 2 + i * 12;
+        if (tag + 10 > view.byteLength) return 1;
+        if (view.getUint16(tag, littleEndian) === 0x0112) {
+          return view.getUint16(tag + 8, littleEndian);
+        }
+      }
+      return 1;
+    }
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+const isLossy = (type: string): boolean => type === 'image/jpeg' || type === 'image/webp';
+
+/**
+ * Bakes the EXIF orientation into the pixels and shrinks images that are larger than the model needs.
+ * A file still over MAX_INPUT_BYTES is converted to JPEG if it is lossless, then downscaled step by
+ * step until it fits. Returns the file unchanged, with no changes listed, when it is already fine to send.
+ */
+const prepareImage = async (file: File): Promise<{ file: File; changes: string[] }> => {
+  const orientation = file.type === 'image/jpeg' ? await readExifOrientation(file) : 1;
+  // Browsers apply the EXIF orientation when decoding, so these are the upright dimensions.
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const { width, height } = bitmap;
+  bitmap.close();
+  let scale = Math.min(1, MAX_INPUT_LONGEST_SIDE / Math.max(width, height));
+  if (orientation <= 1 && scale === 1 && file.size <= MAX_INPUT_BYTES) {
+    return { file, changes: [] };
+  }
+
+  let format = file.type as ExportFormat;
+  const encode = () => applyExportProfile(file, {
+    id: 'upload',
+    name: 'Upload',
+    builtIn: true,
+    size: { width: Math.round(width * scale), height: Math.round(height * scale) },
+    fit: 'crop',
+    padColor: '#000000',
+    format,
+    quality: RESAMPLE_QUALITY,
+    maxFileSizeKB: MAX_INPUT_BYTES / 1024,
+  });
+  let blob = await encode();
+  const convertedFrom = blob.size > MAX_INPUT_BYTES && !isLossy(format) ? format : null;
+  if (convertedFrom) {
+    format = 'image/jpeg';
+    blob = await encode();
+  }
+  while (blob.size > MAX_INPUT_BYTES && Math.max(width, height) * scale * SHRINK_STEP >= MIN_SHRUNK_LONGEST_SIDE) {
+    scale *= SHRINK_STEP;
+    blob = await encode();
+  }
+
+  const changes: string[] = [];
+  if (orientation > 1) changes.push('rotated upright from its EXIF orientation');
+  if (scale < 1) changes.push(`downscaled from ${width}×${height} to ${Math.round(width * scale)}×${Math.round(height * scale)}`);
+  if (convertedFrom) changes.push(`converted from ${FORMAT_EXTENSIONS[convertedFrom].toUpperCase()} to JPEG`);
+  else if (scale === 1 && file.size > MAX_INPUT_BYTES) changes.push(`re-compressed from ${formatMegabytes(file.size)}`);
+  return { file: new File([blob], file.name, { type: blob.type, lastModified: file.lastModified }), changes };
+};
+
+/**
+ * Expands archives, checks every image and prepares it for sending. Each input file (or archive entry)
+ * gets a report entry saying whether it was accepted as-is, converted, or rejected and why. Images that
+ * are already in `existing`, or repeated within the upload, are rejected as duplicates, and `maxFiles`
+ * caps the combined selection.
+ */
+export const ingestImages = async (inputs: File[], existing: File[] = [], maxFiles = MAX_UPLOAD_FILES): Promise<IngestResult> => {
+  const report: IngestReportEntry[] = [];
+  const candidates: Candidate[] = [];
+  for (const input of inputs) {
+    const name = input.webkitRelativePath || input.name;
+    if (isSystemFile(name)) {
+      report.push({ name, outcome: 'rejected', reason: 'Skipped system file.' });
+      continue;
+    }
+    if (!isArchive(input)) {
+      candidates.push({ file: withImageType(input, input.name), name });
+      continue;
+    }
+    try {
+      const entries = await expandArchive(input);
+      if (entries.length === 0) {
+        report.push({ name, outcome: 'rejected', reason: 'The archive contains no files.' });
+      }
+      candidates.push(...entries);
+    } catch (error) {
+      console.error(`Failed to read archive ${name}:`, error);
+      report.push({ name, outcome: 'rejected', reason: 'The archive could not be read.' });
+    }
+  }
+
+  const seen = new Map<string, string>();
+  for (const file of existing) {
+    seen.set(await getSourceHash(file), file.name);
+  }
+
+  const files: File[] = [];
+  for (const { file, name } of candidates) {
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      report.push({ name, outcome: 'rejected', reason: `Unsupported file type${file.type ? ` (${file.type})` : ''}. Use JPEG, PNG or WebP.` });
+      continue;
+    }
+    if (file.size > MAX_READABLE_BYTES) {
+      report.push({ name, outcome: 'rejected', reason: `Too large to open (${formatMegabytes(file.size)}).` });
+      continue;
+    }
+    if (existing.length + files.length >= maxFiles) {
+      report.push({ name, outcome: 'rejected', reason: `Over the limit of ${maxFiles} image${maxFiles !== 1 ? 's' : ''} in the selection.` });
+      continue;
+    }
+    try {
+      const hash = await hashFile(file);
+      const duplicateOf = seen.get(hash);
+      if (duplicateOf) {
+        report.push({ name, outcome: 'rejected', reason: `Duplicate of ${duplicateOf}.` });
+        continue;
+      }
+      const prepared = await prepareImage(file);
+      if (prepared.file.size > MAX_INPUT_BYTES) {
+        report.push({ name, outcome: 'rejected', reason: `Still ${formatMegabytes(prepared.file.size)} after being ${prepared.changes.join(', ')}; the limit is ${formatMegabytes(MAX_INPUT_BYTES)}.` });
+        continue;
+      }
+      files.push(prepared.file);
+      sourceHashes.set(prepared.file, hash);
+      seen.set(hash, name);
+      report.push(prepared.changes.length > 0
+        ? { name, outcome: 'converted', reason: `${prepared.changes.join(', ').replace(/^./, c => c.toUpperCase())}.` }
+        : { name, outcome: 'accepted', reason: 'Ready to process.' });
+    } catch (error) {
+      console.error(`Failed to prepare ${name}:`, error);
+      report.push({ name, outcome: 'rejected', reason: 'The image could not be decoded.' });
+    }
+  }
+  return { files, report };
+};
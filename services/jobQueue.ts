@@ -0,0 +1,223 @@
+import { BilledError } from './usage';
+
+export interface QueueJob {
+  id: string;
+  // The signal aborts when the job is cancelled or held while running; the job should stop as soon as it can.
+  run: (attempt: number, signal: AbortSignal) => Promise<void>;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  onAttempt?: (jobId: string, attempt: number) => void;
+  onRetryScheduled?: (jobId: string, nextAttempt: number, retryAt: number, error: unknown) => void;
+  onSuccess?: (jobId: string, attempts: number) => void;
+  onFailure?: (jobId: string, error: unknown, attempts: number) => void;
+  // Called instead of onFailure once a cancelled job has stopped.
+  onCancel?: (jobId: string) => void;
+  onHold?: (jobId: string) => void;
+  // Checked before each job starts; returning true pauses the queue until `resume` is called.
+  shouldPause?: (activeJobs: number) => boolean;
+  // Only called for pauses requested by `shouldPause`.
+  onPause?: () => void;
+}
+
+export interface JobQueue {
+  enqueue: (jobs: QueueJob[]) => void;
+  onIdle: () => Promise<void>;
+  // Without a job id, running jobs finish and nothing new starts until resumed. With one, that job is
+  // held back (and aborted if running) until it is resumed; held jobs keep the queue from going idle.
+  pause: (jobId?: string) => void;
+  resume: (jobId?: string) => void;
+  // Without a job id, cancels every job. Running jobs are aborted.
+  cancel: (jobId?: string) => void;
+  // Drops jobs that have not started and returns their ids.
+  clearWaiting: () => string[];
+  // Number of jobs running now, the same count `shouldPause` is given.
+  activeJobs: () => number;
+}
+
+interface QueueEntry {
+  job: QueueJob;
+  attempt: number;
+}
+
+interface RunningEntry {
+  entry: QueueEntry;
+  controller: AbortController;
+  stopReason: 'cancel' | 'hold' | null;
+}
+
+export const DEFAULT_QUEUE_OPTIONS = {
+  concurrency: 4,
+  maxAttempts: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 30000,
+};
+
+const TRANSIENT_MESSAGE_PATTERN = /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|overloaded|Failed to fetch|fetch failed|NetworkError/i;
+
+// Rate limits, server errors and dropped connections are worth retrying; anything else (bad input, refusals) is not.
+// A BilledError means the request went through and the model answered badly, so retrying would only bill it again.
+// The message is only consulted for errors without a status, such as network failures thrown by fetch.
+export const isTransientError = (error: unknown): boolean => {
+  if (error instanceof BilledError) {
+    return false;
+  }
+  const status = (error as { status?: unknown } | null)?.status;
+  if (status !== undefined && status !== null) {
+    return typeof status === 'number' && (status === 429 || status >= 500);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return TRANSIENT_MESSAGE_PATTERN.test(message);
+};
+
+export const getBackoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number): number => {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  // Full jitter keeps parallel workers from retrying in lockstep.
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+};
+
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  const waiting: QueueEntry[] = [];
+  const held = new Map<string, QueueEntry>();
+  const running = new Map<string, RunningEntry>();
+  const retryTimers = new Map<string, { timer: ReturnType<typeof setTimeout>; entry: QueueEntry }>();
+  let paused = false;
+  let idleResolvers: (() => void)[] = [];
+
+  const checkIdle = () => {
+    if (running.size === 0 && waiting.length === 0 && retryTimers.size === 0 && held.size === 0) {
+      const resolvers = idleResolvers;
+      idleResolvers = [];
+      resolvers.forEach(resolve => resolve());
+    }
+  };
+
+  const runEntry = async (entry: QueueEntry) => {
+    const { job, attempt } = entry;
+    const slot: RunningEntry = { entry, controller: new AbortController(), stopReason: null };
+    running.set(job.id, slot);
+    options.onAttempt?.(job.id, attempt);
+    try {
+      await job.run(attempt, slot.controller.signal);
+      options.onSuccess?.(job.id, attempt);
+    } catch (error) {
+      // An aborted attempt does not count, so a held job resumes on the same attempt.
+      if (slot.stopReason === 'hold') {
+        held.set(job.id, entry);
+        options.onHold?.(job.id);
+        return;
+      }
+      if (slot.stopReason === 'cancel') {
+        options.onCancel?.(job.id);
+        return;
+      }
+      if (attempt >= options.maxAttempts || !isTransientError(error)) {
+        options.onFailure?.(job.id, error, attempt);
+        return;
+      }
+      // The slot is released while waiting so other jobs keep moving during the backoff.
+      const delay = getBackoffDelay(attempt, options.baseDelayMs, options.maxDelayMs);
+      const next = { job, attempt: attempt + 1 };
+      options.onRetryScheduled?.(job.id, next.attempt, Date.now() + delay, error);
+      const timer = setTimeout(() => {
+        retryTimers.delete(job.id);
+        waiting.unshift(next);
+        pump();
+      }, delay);
+      retryTimers.set(job.id, { timer, entry: next });
+    } finally {
+      running.delete(job.id);
+    }
+  };
+
+  const pump = () => {
+    while (!paused && running.size < options.concurrency && waiting.length > 0) {
+      if (options.shouldPause?.(running.size)) {
+        paused = true;
+        options.onPause?.();
+        break;
+      }
+      runEntry(waiting.shift()!).finally(pump);
+    }
+    checkIdle();
+  };
+
+  // Takes a job that is not running out of the queue, wherever it is waiting.
+  const takeEntry = (jobId: string): QueueEntry | undefined => {
+    const index = waiting.findIndex(entry => entry.job.id === jobId);
+    if (index >= 0) return waiting.splice(index, 1)[0];
+    const retry = retryTimers.get(jobId);
+    if (retry) {
+      clearTimeout(retry.timer);
+      retryTimers.delete(jobId);
+      return retry.entry;
+    }
+    const entry = held.get(jobId);
+    held.delete(jobId);
+    return entry;
+  };
+
+  const stopJob = (jobId: string, reason: 'cancel' | 'hold') => {
+    const slot = running.get(jobId);
+    if (slot) {
+      if (slot.stopReason === 'cancel') return;
+      slot.stopReason = reason;
+      slot.controller.abort();
+      return;
+    }
+    const entry = takeEntry(jobId);
+    if (!entry) return;
+    if (reason === 'hold') {
+      held.set(jobId, entry);
+      options.onHold?.(jobId);
+    } else {
+      options.onCancel?.(jobId);
+    }
+  };
+
+  return {
+    enqueue: (jobs) => {
+      waiting.push(...jobs.map(job => ({ job, attempt: 1 })));
+      pump();
+    },
+    onIdle: () => new Promise<void>(resolve => {
+      idleResolvers.push(resolve);
+      checkIdle();
+    }),
+    pause: (jobId) => {
+      if (jobId === undefined) {
+        paused = true;
+      } else if (!held.has(jobId)) {
+        stopJob(jobId, 'hold');
+      }
+    },
+    resume: (jobId) => {
+      if (jobId === undefined) {
+        paused = false;
+      } else {
+        const entry = held.get(jobId);
+        if (!entry) return;
+        held.delete(jobId);
+        waiting.unshift(entry);
+      }
+      pump();
+    },
+    cancel: (jobId) => {
+      const ids = jobId !== undefined ? [jobId] : [
+        ...waiting.map(entry => entry.job.id), ...retryTimers.keys(), ...held.keys(), ...running.keys(),
+      ];
+      ids.forEach(id => stopJob(id, 'cancel'));
+      checkIdle();
+    },
+    activeJobs: () => running.size,
+    clearWaiting: () => {
+      const dropped = waiting.splice(0).map(entry => entry.job.id);
+      checkIdle();
+      return dropped;
+    },
+  };
+};
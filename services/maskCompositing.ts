@@ -0,0 +1,53 @@
+import { dataUrlToBlob } from './exportProfiles';
+
+// Masks are PNGs whose alpha marks the editable area: opaque where Refine may change pixels.
+
+const loadBitmap = async (url: string) =>
+  createImageBitmap(await dataUrlToBlob(url), { colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+
+const createContext = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return { canvas, ctx };
+};
+
+/**
+ * Keeps the edited image only inside the mask and restores everything else from the base image.
+ * The edit is resized to the base dimensions first, since models do not always return the input size.
+ */
+export const compositeWithMask = async (baseUrl: string, editedUrl: string, maskUrl: string): Promise<string> => {
+  const [base, edited, mask] = await Promise.all([loadBitmap(baseUrl), loadBitmap(editedUrl), loadBitmap(maskUrl)]);
+
+  const { canvas: editLayer, ctx: editCtx } = createContext(base.width, base.height);
+  editCtx.drawImage(edited, 0, 0, base.width, base.height);
+  editCtx.globalCompositeOperation = 'destination-in';
+  editCtx.drawImage(mask, 0, 0, base.width, base.height);
+
+  const { canvas, ctx } = createContext(base.width, base.height);
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(editLayer, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+/** Converts an alpha mask into the white-on-black image sent to the model alongside the prompt. */
+export const maskToModelInput = async (maskUrl: string): Promise<File> => {
+  const mask = await loadBitmap(maskUrl);
+  const { canvas: whiteLayer, ctx: whiteCtx } = createContext(mask.width, mask.height);
+  whiteCtx.drawImage(mask, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#ffffff';
+  whiteCtx.fillRect(0, 0, mask.width, mask.height);
+
+  const { canvas, ctx } = createContext(mask.width, mask.height);
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.drawImage(whiteLayer, 0, 0);
+
+  const blob = await dataUrlToBlob(canvas.toDataURL('image/png'));
+  return new File([blob], 'refine_mask.png', { type: 'image/png' });
+};
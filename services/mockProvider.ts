@@ -0,0 +1,169 @@
+import type { ProcessingOptions, PromptTemplate } from '../types';
+import type { ImageProvider, ProviderResult } from './imageProvider';
+import { normalizeProcessingOptions } from './promptRegistry';
+
+const MOCK_LATENCY_MS = 600;
+const MOCK_LONGEST_SIDE = 3000;
+
+// Rejects as soon as the signal aborts, like a real request would.
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return { canvas, ctx };
+};
+
+const getOutputSize = (width: number, height: number) => {
+  const scale = MOCK_LONGEST_SIDE / Math.max(width, height);
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+const drawCover = (ctx: CanvasRenderingContext2D, image: ImageBitmap, x: number, y: number, width: number, height: number) => {
+  const scale = Math.max(width / image.width, height / image.height);
+  const sw = width / scale;
+  const sh = height / scale;
+  ctx.drawImage(image, (image.width - sw) / 2, (image.height - sh) / 2, sw, sh, x, y, width, height);
+};
+
+const fillTint = (ctx: CanvasRenderingContext2D, color: string, opacityPercent: number, path: () => void) => {
+  ctx.save();
+  ctx.globalAlpha = opacityPercent / 100;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  path();
+  ctx.fill();
+  ctx.restore();
+};
+
+const drawTurntable = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.ellipse(width / 2, height * 0.8, width * 0.42, height * 0.12, 0, 0, Math.PI * 2);
+};
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  ctx.save();
+  ctx.font = `bold ${Math.round(height * 0.03)}px sans-serif`;
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.6)';
+  ctx.textAlign = 'right';
+  ctx.fillText('MOCK', width * 0.98, height * 0.05);
+  ctx.restore();
+};
+
+// Stable per-string value so the same refinement prompt always produces the same output.
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const processCarImage = async (
+  carImageFile: File,
+  backgroundImageFile: File | null,
+  template: PromptTemplate,
+  partialOptions: Partial<ProcessingOptions> = {},
+  _referenceImageFile: File | null = null,
+  signal?: AbortSignal
+): Promise<ProviderResult> => {
+  await delay(MOCK_LATENCY_MS, signal);
+  const options = normalizeProcessingOptions(partialOptions);
+  // Custom modes have no dedicated composite, so they render like the closest built-in.
+  const mode = template.builtIn ? template.id : template.requiresBackground ? 'full' : 'tint-turntable-only';
+  const car = await createImageBitmap(carImageFile);
+  const { width, height } = getOutputSize(car.width, car.height);
+  const { canvas, ctx } = createCanvas(width, height);
+
+  if (mode === 'tint-turntable-only') {
+    ctx.drawImage(car, 0, 0, width, height);
+    if (options.turntableTint === 'tint') {
+      fillTint(ctx, options.turntableTintColor, options.turntableTintOpacity, () => drawTurntable(ctx, width, height));
+    }
+    drawWatermark(ctx, width, height);
+    return { url: canvas.toDataURL('image/png'), usage: null };
+  }
+
+  if (!backgroundImageFile) {
+    throw new Error('A background image is required for this processing mode.');
+  }
+  const background = await createImageBitmap(backgroundImageFile);
+
+  if (mode === 'partial-wall') {
+    // Keep the bottom 40% of the original as the "floor" and swap everything above it.
+    const floorY = Math.round(height * 0.6);
+    ctx.drawImage(car, 0, 0, width, height);
+    drawCover(ctx, background, 0, 0, width, floorY);
+    if (options.floorEffect === 'desaturate') {
+      ctx.save();
+      ctx.filter = 'grayscale(1)';
+      ctx.drawImage(canvas, 0, floorY, width, height - floorY, 0, floorY, width, height - floorY);
+      ctx.restore();
+    } else if (options.floorEffect === 'tint') {
+      fillTint(ctx, options.floorTintColor, options.floorTintOpacity, () => ctx.rect(0, floorY, width, height - floorY));
+    }
+    if (options.matchReflections) {
+      ctx.save();
+      ctx.globalAlpha = 0.1;
+      drawCover(ctx, background, width * 0.2, height * 0.35, width * 0.6, height * 0.25);
+      ctx.restore();
+    }
+  } else {
+    drawCover(ctx, background, 0, 0, width, height);
+    if (mode === 'turntable-tint') {
+      ctx.save();
+      ctx.fillStyle = 'rgba(60, 60, 60, 0.9)';
+      ctx.beginPath();
+      drawTurntable(ctx, width, height);
+      ctx.fill();
+      ctx.restore();
+      if (options.turntableTint === 'tint') {
+        fillTint(ctx, options.turntableTintColor, options.turntableTintOpacity, () => drawTurntable(ctx, width, height));
+      }
+    }
+    // Contact shadow, then the car inset so the composite is obviously synthetic.
+    ctx.save();
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)';
+    ctx.filter = `blur(${Math.round(height * 0.01)}px)`;
+    ctx.beginPath();
+    ctx.ellipse(width / 2, height * 0.86, width * 0.34, height * 0.04, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.restore();
+    const carWidth = width * 0.7;
+    const carHeight = height * 0.7;
+    ctx.drawImage(car, (width - carWidth) / 2, height * 0.88 - carHeight, carWidth, carHeight);
+  }
+
+  drawWatermark(ctx, width, height);
+  return { url: canvas.toDataURL('image/png'), usage: null };
+};
+
+const correctImage = async (processedImageFile: File, correctionPrompt: string, _maskFile?: File, signal?: AbortSignal): Promise<ProviderResult> => {
+  await delay(MOCK_LATENCY_MS, signal);
+  const image = await createImageBitmap(processedImageFile);
+  const { canvas, ctx } = createCanvas(image.width, image.height);
+  const hue = hashString(correctionPrompt) % 30 - 15;
+  ctx.filter = `hue-rotate(${hue}deg) brightness(1.03)`;
+  ctx.drawImage(image, 0, 0);
+  return { url: canvas.toDataURL('image/png'), usage: null };
+};
+
+export const mockProvider: ImageProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  description: 'Deterministic canvas composites. No network access or API key needed.',
+  model: null,
+  processCarImage,
+  correctImage,
+};
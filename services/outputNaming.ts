@@ -0,0 +1,159 @@
+import type { ApiUsage, FolderLayout, OutputNaming, ProcessingOptions, ProcessingStatus, ReviewState } from '../types';
+
+export const NAMING_TOKENS: { token: string; description: string }[] = [
+  { token: '{name}', description: 'Car image filename without its extension' },
+  { token: '{stock}', description: 'Stock number read with the vehicle pattern, or the filename when it does not match' },
+  { token: '{index}', description: 'Position in the batch, zero-padded' },
+  { token: '{mode}', description: 'Processing mode' },
+  { token: '{background}', description: 'Background filename, or "none"' },
+  { token: '{date}', description: 'Date the result was generated (YYYY-MM-DD)' },
+  { token: '{tint}', description: 'Tint colour and opacity, e.g. ff0000-15, or bw / none' },
+];
+
+export const FOLDER_LAYOUTS: { id: FolderLayout; label: string }[] = [
+  { id: 'auto', label: 'By vehicle, and by background when there are several' },
+  { id: 'flat', label: 'No folders' },
+  { id: 'background', label: 'One folder per background' },
+  { id: 'stock', label: 'One folder per stock number' },
+  { id: 'mode', label: 'One folder per mode' },
+];
+
+// Matches the names produced before templates existed.
+export const DEFAULT_OUTPUT_NAMING: OutputNaming = {
+  filenameTemplate: '{name}-processed',
+  folderLayout: 'auto',
+};
+
+/** Keeps the parts of saved naming settings that are still valid and defaults the rest. */
+export const normalizeOutputNaming = (naming: Partial<OutputNaming> | null | undefined): OutputNaming => ({
+  filenameTemplate: typeof naming?.filenameTemplate === 'string' && naming.filenameTemplate.trim()
+    ? naming.filenameTemplate
+    : DEFAULT_OUTPUT_NAMING.filenameTemplate,
+  folderLayout: FOLDER_LAYOUTS.some(layout => layout.id === naming?.folderLayout) ? naming!.folderLayout! : DEFAULT_OUTPUT_NAMING.folderLayout,
+});
+
+export interface NamingContext {
+  sourceName: string;
+  backgroundName: string | null;
+  // Stock number from the vehicle pattern; null when the filename does not match it.
+  stock: string | null;
+  modeLabel: string;
+  options: ProcessingOptions;
+  // 1-based position in the batch, padded to the width of `total`.
+  index: number;
+  total: number;
+  date: Date;
+}
+
+export interface ManifestEntry {
+  source: string;
+  background: string | null;
+  output: string | null;
+  mode: string;
+  options: ProcessingOptions;
+  status: ProcessingStatus;
+  review: ReviewState;
+  reviewNote: string | null;
+  error: string | null;
+  usage: ApiUsage | null;
+}
+
+const getBaseName = (filename: string): string => filename.replace(/\.[^.]+$/, '');
+
+// Keeps names valid on Windows and macOS as well as inside the zip.
+const sanitizePathSegment = (value: string): string =>
+  value.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').replace(/\s+/g, ' ').trim().replace(/^\.+/, '');
+
+const slugify = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+// Floor and turntable tints never apply in the same mode, since unused options are reset.
+const describeTint = (options: ProcessingOptions): string => {
+  if (options.floorEffect === 'tint') return slugify(`${options.floorTintColor}-${options.floorTintOpacity}`);
+  if (options.turntableTint === 'tint') return slugify(`${options.turntableTintColor}-${options.turntableTintOpacity}`);
+  return options.floorEffect === 'desaturate' ? 'bw' : 'none';
+};
+
+export const formatDate = (date: Date): string => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const getTokenValues = (context: NamingContext): Record<string, string> => ({
+  name: getBaseName(context.sourceName),
+  stock: context.stock ?? getBaseName(context.sourceName),
+  index: String(context.index).padStart(Math.max(2, String(context.total).length), '0'),
+  mode: slugify(context.modeLabel),
+  background: context.backgroundName ? getBaseName(context.backgroundName) : 'none',
+  date: formatDate(context.date),
+  tint: describeTint(context.options),
+});
+
+/** Returns any `{token}` in the template that is not one of NAMING_TOKENS. */
+export const findUnknownTokens = (template: string): string[] => {
+  const known = new Set(NAMING_TOKENS.map(t => t.token));
+  return Array.from(new Set(template.match(/\{[^}]*\}/g) ?? [])).filter(token => !known.has(token));
+};
+
+export const renderFilename = (template: string, context: NamingContext, extension: string): string => {
+  const values = getTokenValues(context);
+  const name = sanitizePathSegment(template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match));
+  return `${name || values.name}.${extension}`;
+};
+
+/** Returns the folder prefix (with trailing slash) for a result, or an empty string. */
+export const renderFolder = (layout: FolderLayout, context: NamingContext, hasSeveralBackgrounds: boolean): string => {
+  const values = getTokenValues(context);
+  // Photos that do not belong to a vehicle stay at the top level rather than getting a folder each.
+  const folders: Record<FolderLayout, string[]> = {
+    auto: [context.stock ?? '', hasSeveralBackgrounds && context.backgroundName ? values.background : ''],
+    flat: [],
+    background: [values.background],
+    stock: [context.stock ?? ''],
+    mode: [values.mode],
+  };
+  return folders[layout].map(sanitizePathSegment).filter(Boolean).map(segment => `${segment}/`).join('');
+};
+
+/** Appends -2, -3, ... before the extension until the path is not already in `usedPaths`, then records it. */
+export const claimUniquePath = (path: string, usedPaths: Set<string>): string => {
+  const match = path.match(/^(.*?)(\.[^./]+)?$/)!;
+  let candidate = path;
+  for (let suffix = 2; usedPaths.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${match[1]}-${suffix}${match[2] ?? ''}`;
+  }
+  usedPaths.add(candidate.toLowerCase());
+  return candidate;
+};
+
+const escapeCsvValue = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const buildManifestCsv = (entries: ManifestEntry[]): string => {
+  const header = [
+    'source', 'background', 'output', 'mode',
+    'floorEffect', 'floorTintColor', 'floorTintOpacity', 'matchReflections', 'turntableTint', 'turntableTintColor', 'turntableTintOpacity',
+    'status', 'review', 'reviewNote', 'error', 'apiCalls', 'totalTokens', 'estimatedCostUsd',
+  ];
+  const rows = entries.map(entry => [
+    entry.source,
+    entry.background ?? '',
+    entry.output ?? '',
+    entry.mode,
+    entry.options.floorEffect,
+    entry.options.floorTintColor,
+    String(entry.options.floorTintOpacity),
+    String(entry.options.matchReflections),
+    entry.options.turntableTint,
+    entry.options.turntableTintColor,
+    String(entry.options.turntableTintOpacity),
+    entry.status,
+    entry.review,
+    entry.reviewNote ?? '',
+    entry.error ?? '',
+    String(entry.usage?.calls ?? 0),
+    String(entry.usage?.totalTokens ?? 0),
+    (entry.usage?.costUsd ?? 0).toFixed(4),
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,123 @@
+import type { Preset } from '../types';
+import { openDatabase, PRESET_STORE, requestToPromise, transactionDone } from './database';
+import { dataUrlToBlob, ORIGINAL_EXPORT_PROFILE_ID, parseCustomExportProfile } from './exportProfiles';
+import { normalizeOutputNaming } from './outputNaming';
+import { BUILT_IN_PROMPT_TEMPLATES, normalizeProcessingOptions, parseCustomPromptTemplate } from './promptRegistry';
+import { DEFAULT_TURNTABLE_ELLIPSE, isTurntableEllipse } from './turntableTint';
+
+const PRESET_FILE_FORMAT = 'autoshade-preset';
+const PRESET_FILE_VERSION = 1;
+
+// Files cannot be written to JSON directly, so backgrounds travel as data URLs.
+interface SerializedFile {
+  name: string;
+  type: string;
+  lastModified: number;
+  dataUrl: string;
+}
+
+interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  preset: Omit<Preset, 'id' | 'backgroundImages'> & { backgroundImages: SerializedFile[] };
+}
+
+export const savePreset = async (preset: Preset): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PRESET_STORE, 'readwrite');
+  transaction.objectStore(PRESET_STORE).put(preset);
+  await transactionDone(transaction);
+};
+
+export const listPresets = async (): Promise<Preset[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(PRESET_STORE, 'readonly').objectStore(PRESET_STORE);
+  const presets = await requestToPromise<Preset[]>(store.getAll());
+  return presets.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PRESET_STORE, 'readwrite');
+  transaction.objectStore(PRESET_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+const fileToDataUrl = (file: File): Promise<string> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const presetToJson = async (preset: Preset): Promise<string> => {
+  const { id: _id, backgroundImages, ...rest } = preset;
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    preset: {
+      ...rest,
+      backgroundImages: await Promise.all(backgroundImages.map(async image => ({
+        name: image.name,
+        type: image.type,
+        lastModified: image.lastModified,
+        dataUrl: await fileToDataUrl(image),
+      }))),
+    },
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+/** Parses an exported preset file into a new preset with its own id. */
+export const presetFromJson = async (text: string): Promise<Preset> => {
+  let file: PresetFile;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (file?.format !== PRESET_FILE_FORMAT || !file.preset) {
+    throw new Error('The file is not an AutoShade preset.');
+  }
+  if (file.version > PRESET_FILE_VERSION) {
+    throw new Error('The preset was exported by a newer version of AutoShade Studio.');
+  }
+  const { preset } = file;
+  if (typeof preset.name !== 'string' || typeof preset.processingMode !== 'string') {
+    throw new Error('The preset is missing its name or mode.');
+  }
+  const isCustomMode = preset.processingMode.startsWith('custom:');
+  if (isCustomMode && preset.customTemplate?.id !== preset.processingMode) {
+    throw new Error(`The preset "${preset.name}" uses a custom mode but does not include it.`);
+  }
+  if (!isCustomMode && !BUILT_IN_PROMPT_TEMPLATES.some(t => t.id === preset.processingMode)) {
+    throw new Error(`The preset "${preset.name}" uses an unknown mode "${preset.processingMode}".`);
+  }
+  const customTemplate = isCustomMode ? parseCustomPromptTemplate(preset.customTemplate) : null;
+  // A profile is rejected rather than patched, since its settings only make sense together.
+  const customExportProfile = preset.customExportProfile ? parseCustomExportProfile(preset.customExportProfile) : null;
+
+  // Only embedded images are read; any other URL would make the app fetch whatever the file names.
+  const backgroundImages = await Promise.all((Array.isArray(preset.backgroundImages) ? preset.backgroundImages : []).map(async image => {
+    if (typeof image?.dataUrl !== 'string' || !image.dataUrl.startsWith('data:image/') || typeof image.name !== 'string') {
+      throw new Error(`The preset "${preset.name}" contains a background that is not an embedded image.`);
+    }
+    const blob = await dataUrlToBlob(image.dataUrl);
+    return new File([blob], image.name, { type: blob.type, lastModified: typeof image.lastModified === 'number' ? image.lastModified : Date.now() });
+  }));
+
+  return {
+    id: crypto.randomUUID(),
+    name: preset.name,
+    createdAt: Date.now(),
+    processingMode: preset.processingMode,
+    processingOptions: normalizeProcessingOptions(preset.processingOptions),
+    customTemplate,
+    backgroundImages,
+    localTurntableTint: typeof preset.localTurntableTint === 'boolean' ? preset.localTurntableTint : true,
+    turntableMask: isTurntableEllipse(preset.turntableMask) ? preset.turntableMask : DEFAULT_TURNTABLE_ELLIPSE,
+    exportProfileId: customExportProfile?.id ?? (typeof preset.exportProfileId === 'string' ? preset.exportProfileId : ORIGINAL_EXPORT_PROFILE_ID),
+    customExportProfile,
+    outputNaming: normalizeOutputNaming(preset.outputNaming),
+  };
+};
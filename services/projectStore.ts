@@ -0,0 +1,94 @@
+import type { Project, ProjectSummary } from '../types';
+import { ORIGINAL_EXPORT_PROFILE_ID } from './exportProfiles';
+import { DEFAULT_OUTPUT_NAMING } from './outputNaming';
+import { normalizeProcessingOptions } from './promptRegistry';
+import { DEFAULT_TURNTABLE_ELLIPSE } from './turntableTint';
+import { DEFAULT_VEHICLE_PATTERN } from './vehicles';
+import { openDatabase, PROJECT_STORE, requestToPromise, SUMMARY_STORE, transactionDone } from './database';
+
+const LAST_PROJECT_STORAGE_KEY = 'autoshade.lastProjectId';
+
+// Fills in fields added after a project was saved.
+const migrateProject = (project: Project): Project => {
+  const settings = {
+    exportProfileId: ORIGINAL_EXPORT_PROFILE_ID,
+    localTurntableTint: true,
+    turntableMask: DEFAULT_TURNTABLE_ELLIPSE,
+    outputNaming: DEFAULT_OUTPUT_NAMING,
+    autoRerunFlagged: false,
+    vehiclePattern: DEFAULT_VEHICLE_PATTERN,
+    vehicleOverrides: {},
+    ...project.settings,
+    processingOptions: normalizeProcessingOptions(project.settings.processingOptions),
+  };
+  return {
+    ...project,
+    settings,
+    processedImages: project.processedImages.map(image => ({
+      ...image,
+      processingOptions: normalizeProcessingOptions(image.processingOptions),
+      localTurntableTint: image.localTurntableTint ?? settings.localTurntableTint,
+      turntableMask: image.turntableMask ?? settings.turntableMask,
+      reviewState: image.reviewState ?? 'unreviewed',
+    })),
+  };
+};
+
+const toSummary = (project: Project): ProjectSummary => ({
+  id: project.id,
+  name: project.name,
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt,
+  carImageCount: project.carImages.length,
+  doneCount: project.processedImages.filter(image => image.status === 'done').length,
+});
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECT_STORE, SUMMARY_STORE], 'readwrite');
+  transaction.objectStore(PROJECT_STORE).put(project);
+  transaction.objectStore(SUMMARY_STORE).put(toSummary(project));
+  await transactionDone(transaction);
+};
+
+export const loadProject = async (id: string): Promise<Project | null> => {
+  const db = await openDatabase();
+  const store = db.transaction(PROJECT_STORE, 'readonly').objectStore(PROJECT_STORE);
+  const record = await requestToPromise<Project | undefined>(store.get(id));
+  return record ? migrateProject(record) : null;
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE);
+  const summaries = await requestToPromise<ProjectSummary[]>(store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECT_STORE, SUMMARY_STORE], 'readwrite');
+  transaction.objectStore(PROJECT_STORE).delete(id);
+  transaction.objectStore(SUMMARY_STORE).delete(id);
+  await transactionDone(transaction);
+  if (getLastProjectId() === id) {
+    localStorage.removeItem(LAST_PROJECT_STORAGE_KEY);
+  }
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const project = await loadProject(id);
+  if (!project) {
+    throw new Error('The project to duplicate no longer exists.');
+  }
+  const now = Date.now();
+  const copy: Project = { ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now, updatedAt: now };
+  await saveProject(copy);
+  return copy;
+};
+
+export const getLastProjectId = (): string | null => localStorage.getItem(LAST_PROJECT_STORAGE_KEY);
+
+export const setLastProjectId = (id: string) => {
+  localStorage.setItem(LAST_PROJECT_STORAGE_KEY, id);
+};
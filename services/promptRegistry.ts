@@ -0,0 +1,256 @@
+import type { BuiltInProcessingMode, FloorEffect, ProcessingMode, ProcessingOptions, PromptStep, PromptTemplate, PromptVariable, TurntableTint } from '../types';
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  floorEffect: 'none',
+  floorTintColor: '#ff0000',
+  floorTintOpacity: 15,
+  matchReflections: false,
+  turntableTint: 'none',
+  turntableTintColor: '#ff0000',
+  turntableTintOpacity: 15,
+};
+
+export const PROMPT_VARIABLES: PromptVariable[] = [
+  'floorEffect',
+  'floorTintColor',
+  'floorTintOpacity',
+  'matchReflections',
+  'turntableTint',
+  'turntableTintColor',
+  'turntableTintOpacity',
+];
+
+const FLOOR_EFFECTS: FloorEffect[] = ['none', 'desaturate', 'tint'];
+const TURNTABLE_TINTS: TurntableTint[] = ['none', 'tint'];
+
+// Colours end up in the prompt, so only short CSS-like values (hex, names, rgb()) are accepted.
+const isTintColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^[#a-zA-Z0-9(),.%\s-]{1,40}$/.test(value.trim());
+
+const toOpacity = (value: unknown, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(100, Math.max(0, Math.round(value))) : fallback;
+
+/** Fills in missing options and replaces any value outside the current option set with its default. */
+export const normalizeProcessingOptions = (partialOptions: Partial<ProcessingOptions> | null = {}): ProcessingOptions => {
+  const options = partialOptions ?? {};
+  const defaults = DEFAULT_PROCESSING_OPTIONS;
+  return {
+    floorEffect: FLOOR_EFFECTS.includes(options.floorEffect!) ? options.floorEffect! : defaults.floorEffect,
+    floorTintColor: isTintColor(options.floorTintColor) ? options.floorTintColor.trim() : defaults.floorTintColor,
+    floorTintOpacity: toOpacity(options.floorTintOpacity, defaults.floorTintOpacity),
+    matchReflections: typeof options.matchReflections === 'boolean' ? options.matchReflections : defaults.matchReflections,
+    turntableTint: TURNTABLE_TINTS.includes(options.turntableTint!) ? options.turntableTint! : defaults.turntableTint,
+    turntableTintColor: isTintColor(options.turntableTintColor) ? options.turntableTintColor.trim() : defaults.turntableTintColor,
+    turntableTintOpacity: toOpacity(options.turntableTintOpacity, defaults.turntableTintOpacity),
+  };
+};
+
+const OUTPUT_REQUIREMENT = 'The final output must be a single, high-resolution composite image, aiming for 3000 pixels on the longest side. Do not include any text, borders, or annotations.';
+
+const BUILT_IN_TEMPLATES: Record<BuiltInProcessingMode, PromptTemplate> = {
+  'full': {
+    id: 'full',
+    version: 1,
+    label: 'Full Background Replacement',
+    description: 'Replaces the entire background with the new image. Ideal for any scene.',
+    builtIn: true,
+    requiresBackground: true,
+    variables: [],
+    intro: 'Analyze the two images provided. The first image contains a car. The second image is a new background. Your task is to perform the following steps:',
+    steps: [
+      { text: 'Accurately isolate the car from its original background in the first image.' },
+      { text: 'Place the isolated car onto the new background provided in the second image.' },
+      { text: "Generate a natural and realistic shadow for the car on the new background, making sure the shadow's direction, softness, and intensity are consistent with the lighting conditions of the background." },
+      { text: 'Blend the car seamlessly into the new environment to create a photorealistic composite image.' },
+    ],
+    outro: OUTPUT_REQUIREMENT,
+  },
+  'partial-wall': {
+    id: 'partial-wall',
+    version: 2,
+    label: 'Partial Wall Replacement',
+    description: 'Replaces only the wall/background, keeping the original studio floor.',
+    builtIn: true,
+    requiresBackground: true,
+    variables: ['floorEffect', 'floorTintColor', 'floorTintOpacity', 'matchReflections'],
+    intro: 'Analyze the two images provided. The first image contains a car in its original setting (e.g., a studio). The second image is a new background/scene. Your task is to create a composite image by following these steps:',
+    steps: [
+      { text: 'In the first image, identify the car and the horizontal line that separates the floor from the wall/background.' },
+      { text: 'Keep the original floor from the first image. The car and its shadow on the floor must be preserved perfectly.' },
+      { text: 'Replace the original background area above the floor (the wall) with the new background from the second image. The new background should be realistically scaled and perspectively matched to the scene.' },
+      { text: 'Create a seamless, natural-looking transition between the retained floor and the new upper background.' },
+      { text: 'The car should remain in its original position on its original floor, but now set against the new background. Ensure the lighting on the car is consistent with the new background environment.' },
+      {
+        text: 'The original floor that is kept must be converted to black and white (fully desaturated). This is a critical requirement.',
+        when: { variable: 'floorEffect', in: ['desaturate'] },
+      },
+      {
+        text: 'Apply a transparent color overlay in {{floorTintColor}} with {{floorTintOpacity}}% opacity to the entire floor area that is being kept. The original floor texture and shadows must remain clearly visible beneath this color tint. This is a critical requirement.',
+        when: { variable: 'floorEffect', in: ['tint'] },
+      },
+      {
+        text: "Crucially, you must also meticulously adjust the reflections on the car's bodywork, windows, and wheels to realistically mirror the new background environment. This is a critical requirement for a photorealistic result.",
+        when: { variable: 'matchReflections', in: [true] },
+      },
+    ],
+    outro: OUTPUT_REQUIREMENT,
+  },
+  'turntable-tint': {
+    id: 'turntable-tint',
+    version: 2,
+    label: 'Turntable Isolate & Tint',
+    description: 'Keeps only the car and turntable, replacing all other scenery. Good for turntable shots.',
+    builtIn: true,
+    requiresBackground: true,
+    variables: ['turntableTint', 'turntableTintColor', 'turntableTintOpacity'],
+    intro: 'Analyze the two images provided. The first image contains a car on a circular rotating platform/turntable. The second image is a new background. Your task is to create a composite image by following these strict steps:',
+    steps: [
+      { text: 'Precisely identify and isolate the car and the complete circular turntable it rests on from the original background.' },
+      { text: 'Preserve the car and the turntable perfectly.' },
+      { text: 'Replace the entire original background, including the floor surrounding the turntable and the walls, with the new background from the second image. The new background must appear seamlessly behind and around the turntable.' },
+      { text: "Generate a natural, realistic shadow for the car on the turntable's surface, ensuring it is consistent with the lighting of the new background." },
+      { text: 'Create a photorealistic composite image.' },
+      {
+        text: "CRITICAL INSTRUCTION: Apply a transparent color overlay in {{turntableTintColor}} with exactly {{turntableTintOpacity}}% opacity ONLY to the top surface of the turntable. The turntable's original texture, details, and the car's shadow must remain clearly visible underneath this color tint.",
+        when: { variable: 'turntableTint', in: ['tint'] },
+      },
+    ],
+    outro: OUTPUT_REQUIREMENT,
+  },
+  'tint-turntable-only': {
+    id: 'tint-turntable-only',
+    version: 2,
+    label: 'Tint Turntable Only',
+    description: 'Applies a color tint to the turntable only, leaving the car and original background unchanged.',
+    builtIn: true,
+    requiresBackground: false,
+    variables: ['turntableTint', 'turntableTintColor', 'turntableTintOpacity'],
+    intro: 'Your task is to perform a highly specific and subtle edit on the provided image of a car on a turntable. Follow these instructions precisely:',
+    steps: [
+      { text: 'Identify the circular rotating platform/turntable beneath the car.' },
+      { text: "Apply a transparent color overlay in {{turntableTintColor}} with exactly {{turntableTintOpacity}}% opacity ONLY to the top surface of the turntable. The turntable's original texture, details, and any shadows on it must remain clearly visible underneath the color tint." },
+      { text: 'CRITICAL: You must NOT change anything else in the image. The car, the shadows, the walls, and the floor surrounding the turntable must remain completely untouched and identical to the original image.' },
+    ],
+    outro: 'The final output must be a single, high-resolution image that is identical to the input except for the color tint on the turntable. Do not include any text, borders, or annotations.',
+  },
+};
+
+export const BUILT_IN_PROMPT_TEMPLATES: PromptTemplate[] = Object.values(BUILT_IN_TEMPLATES);
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+const isPromptVariable = (name: string): name is PromptVariable => (PROMPT_VARIABLES as string[]).includes(name);
+
+/** Returns the variables a piece of template text refers to, throwing on any name that is not a known option. */
+export const extractPromptVariables = (text: string): PromptVariable[] => {
+  const found = new Set<PromptVariable>();
+  for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!isPromptVariable(match[1])) {
+      throw new Error(`Unknown template variable "{{${match[1]}}}". Available: ${PROMPT_VARIABLES.map(v => `{{${v}}}`).join(', ')}.`);
+    }
+    found.add(match[1]);
+  }
+  return Array.from(found);
+};
+
+const isStepActive = (step: PromptStep, options: ProcessingOptions): boolean =>
+  !step.when || step.when.in.includes(options[step.when.variable]);
+
+const interpolate = (text: string, options: ProcessingOptions): string =>
+  text.replace(PLACEHOLDER_PATTERN, (_, name: string) => String(options[name as PromptVariable]));
+
+export const renderPromptTemplate = (template: PromptTemplate, options: Partial<ProcessingOptions> = {}): string => {
+  const resolved = normalizeProcessingOptions(options);
+  const steps = template.steps
+    .filter(step => isStepActive(step, resolved))
+    .map((step, index) => `${index + 1}. ${interpolate(step.text, resolved)}`);
+  return [interpolate(template.intro, resolved), ...steps, interpolate(template.outro, resolved)].join('\n');
+};
+
+export const getPromptTemplate = (mode: ProcessingMode, customTemplates: PromptTemplate[] = []): PromptTemplate => {
+  const template = BUILT_IN_TEMPLATES[mode as BuiltInProcessingMode] ?? customTemplates.find(t => t.id === mode);
+  if (!template) {
+    throw new Error(`Unknown processing mode: ${mode}`);
+  }
+  return template;
+};
+
+export const createCustomPromptTemplate = (
+  label: string,
+  description: string,
+  instructions: string,
+  requiresBackground: boolean
+): PromptTemplate => {
+  const steps = instructions.split('\n').map(line => line.trim()).filter(Boolean);
+  if (!label.trim()) {
+    throw new Error('A custom mode needs a name.');
+  }
+  if (steps.length === 0) {
+    throw new Error('A custom mode needs at least one instruction.');
+  }
+  return {
+    id: `custom:${crypto.randomUUID()}`,
+    version: 1,
+    label: label.trim(),
+    description: description.trim(),
+    builtIn: false,
+    requiresBackground,
+    variables: extractPromptVariables(steps.join('\n')),
+    intro: requiresBackground
+      ? 'Analyze the two images provided. The first image contains a car. The second image is a new background. Your task is to create a composite image by following these steps:'
+      : 'Your task is to edit the provided image of a car by following these steps:',
+    steps: steps.map(text => ({ text })),
+    outro: OUTPUT_REQUIREMENT,
+  };
+};
+
+/** Rebuilds a custom mode read from outside the app (such as a preset file), throwing if it is malformed. */
+export const parseCustomPromptTemplate = (value: unknown): PromptTemplate => {
+  const template = value as Partial<PromptTemplate> | null;
+  const isString = (field: unknown): field is string => typeof field === 'string';
+  if (!template || typeof template !== 'object' || !isString(template.id) || !template.id.startsWith('custom:')) {
+    throw new Error('The custom mode has no valid id.');
+  }
+  if (!isString(template.label) || !template.label.trim() || !isString(template.intro) || !isString(template.outro)
+    || typeof template.requiresBackground !== 'boolean' || !Array.isArray(template.steps) || template.steps.length === 0) {
+    throw new Error(`The custom mode "${String(template.label ?? template.id)}" is incomplete.`);
+  }
+  const steps = template.steps.map((step): PromptStep => {
+    if (!step || !isString(step.text)) {
+      throw new Error(`The custom mode "${template.label}" has a step without text.`);
+    }
+    if (step.when && (!isPromptVariable(step.when.variable) || !Array.isArray(step.when.in))) {
+      throw new Error(`The custom mode "${template.label}" has a step with an invalid condition.`);
+    }
+    return step.when ? { text: step.text, when: { variable: step.when.variable, in: step.when.in } } : { text: step.text };
+  });
+  return {
+    id: template.id as ProcessingMode,
+    version: typeof template.version === 'number' ? template.version : 1,
+    label: template.label.trim(),
+    description: isString(template.description) ? template.description : '',
+    builtIn: false,
+    requiresBackground: template.requiresBackground,
+    variables: extractPromptVariables([template.intro, ...steps.map(step => step.text), template.outro].join('\n')),
+    intro: template.intro,
+    steps,
+    outro: template.outro,
+  };
+};
+
+// --- Custom mode persistence ---
+const CUSTOM_TEMPLATES_STORAGE_KEY = 'autoshade.customPromptTemplates';
+
+export const loadCustomPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(CUSTOM_TEMPLATES_STORAGE_KEY);
+    return raw ? JSON.parse(raw) as PromptTemplate[] : [];
+  } catch (error) {
+    console.error('Failed to load custom processing modes:', error);
+    return [];
+  }
+};
+
+export const saveCustomPromptTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(CUSTOM_TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+};
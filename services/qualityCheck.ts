@@ -0,0 +1,181 @@
+import type { QualityIssue } from '../types';
+import { dataUrlToBlob } from './exportProfiles';
+
+export const QUALITY_THRESHOLDS = {
+  // Every prompt asks for 3000px on the longest side; anything under half of that is flagged.
+  targetLongestSide: 3000,
+  minLongestSideRatio: 0.5,
+  // Relative difference between the input and output aspect ratios.
+  maxAspectRatioDrift: 0.05,
+  // Share of sample pixels whose brightness moved by more than `changedPixelDelta` (0-255).
+  minChangedFraction: 0.01,
+  changedPixelDelta: 10,
+  // Brightness standard deviation below which an output is considered a flat, blank image.
+  minBrightnessDeviation: 4,
+  // Average drift across the aspects compared with a vehicle's reference (0-1) above which a result is flagged.
+  maxReferenceDrift: 0.15,
+};
+
+// How many extra generations an image gets when auto re-run is on, before it is flagged anyway.
+export const MAX_QUALITY_RERUNS = 2;
+
+// The perceptual comparison runs on a small grayscale thumbnail, which ignores noise and re-encoding.
+const SAMPLE_SIZE = 64;
+
+const toGrayscaleSample = (bitmap: ImageBitmap): Float32Array => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(bitmap, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const sample = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  for (let i = 0; i < sample.length; i++) {
+    sample[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return sample;
+};
+
+const standardDeviation = (values: Float32Array): number => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+/**
+ * Checks a generated result against its source photo. Returns the problems found; an empty list
+ * means the result passed. Missing subjects are not detected directly, but usually show up as a
+ * blank output or a changed aspect ratio.
+ *
+ * Modes that edit the photo in place (such as a light turntable tint) are meant to leave most of it
+ * untouched, so pass `expectsChange: false` to skip the "unchanged" check for them.
+ */
+export const checkOutputQuality = async (originalFile: Blob, resultUrl: string, expectsChange = true): Promise<QualityIssue[]> => {
+  const [original, result] = await Promise.all([createImageBitmap(originalFile), createImageBitmap(await dataUrlToBlob(resultUrl))]);
+  const issues: QualityIssue[] = [];
+
+  const longestSide = Math.max(result.width, result.height);
+  const minLongestSide = QUALITY_THRESHOLDS.targetLongestSide * QUALITY_THRESHOLDS.minLongestSideRatio;
+  if (longestSide < minLongestSide) {
+    issues.push({ code: 'too-small', message: `Only ${result.width}×${result.height}px; expected around ${QUALITY_THRESHOLDS.targetLongestSide}px on the longest side.` });
+  }
+
+  const originalRatio = original.width / original.height;
+  const resultRatio = result.width / result.height;
+  if (Math.abs(resultRatio / originalRatio - 1) > QUALITY_THRESHOLDS.maxAspectRatioDrift) {
+    issues.push({ code: 'aspect-ratio', message: `Aspect ratio changed from ${originalRatio.toFixed(2)} to ${resultRatio.toFixed(2)}; the car may be cropped.` });
+  }
+
+  const originalSample = toGrayscaleSample(original);
+  const resultSample = toGrayscaleSample(result);
+  if (standardDeviation(resultSample) < QUALITY_THRESHOLDS.minBrightnessDeviation) {
+    issues.push({ code: 'blank', message: 'The result is almost a single flat colour.' });
+  } else if (expectsChange) {
+    let changed = 0;
+    for (let i = 0; i < resultSample.length; i++) {
+      if (Math.abs(resultSample[i] - originalSample[i]) > QUALITY_THRESHOLDS.changedPixelDelta) changed++;
+    }
+    if (changed / resultSample.length < QUALITY_THRESHOLDS.minChangedFraction) {
+      issues.push({ code: 'unchanged', message: 'The result is nearly identical to the original photo.' });
+    }
+  }
+
+  original.close();
+  result.close();
+  return issues;
+};
+
+// Column width, in sample pixels, on each side of the frame that is treated as background when comparing framing.
+const EDGE_COLUMNS = 10;
+
+// Describes how a shot looks without depending on the car's angle, so shots of one set can be compared.
+interface LookProfile {
+  brightness: number;
+  contrast: number;
+  // Mean red minus mean blue; positive is warmer.
+  warmth: number;
+  // Brightness of each row at the left and right edges, relative to their average: where the horizon and floor sit.
+  edgeRows: Float32Array;
+  // Brightness of the left half of the bottom third minus the right half; shadows cast sideways move it.
+  shadowBalance: number;
+}
+
+const toLookProfile = (bitmap: ImageBitmap): LookProfile => {
+  const canvas = document.createElement('canvas');
+  canvas.width = SAMPLE_SIZE;
+  canvas.height = SAMPLE_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  ctx.drawImage(bitmap, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const luminance = new Float32Array(SAMPLE_SIZE * SAMPLE_SIZE);
+  let warmth = 0;
+  for (let i = 0; i < luminance.length; i++) {
+    luminance[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    warmth += data[i * 4] - data[i * 4 + 2];
+  }
+
+  const edgeRows = new Float32Array(SAMPLE_SIZE);
+  let shadowLeft = 0;
+  let shadowRight = 0;
+  for (let y = 0; y < SAMPLE_SIZE; y++) {
+    for (let x = 0; x < SAMPLE_SIZE; x++) {
+      const value = luminance[y * SAMPLE_SIZE + x];
+      if (x < EDGE_COLUMNS || x >= SAMPLE_SIZE - EDGE_COLUMNS) edgeRows[y] += value / (EDGE_COLUMNS * 2);
+      if (y >= (SAMPLE_SIZE * 2) / 3) {
+        if (x < SAMPLE_SIZE / 2) shadowLeft += value;
+        else shadowRight += value;
+      }
+    }
+  }
+  const edgeMean = edgeRows.reduce((sum, value) => sum + value, 0) / SAMPLE_SIZE;
+  const shadowHalfPixels = (SAMPLE_SIZE / 2) * (SAMPLE_SIZE - Math.ceil((SAMPLE_SIZE * 2) / 3));
+
+  return {
+    brightness: luminance.reduce((sum, value) => sum + value, 0) / luminance.length,
+    contrast: standardDeviation(luminance),
+    warmth: warmth / luminance.length,
+    edgeRows: edgeRows.map(value => value - edgeMean),
+    shadowBalance: (shadowLeft - shadowRight) / shadowHalfPixels,
+  };
+};
+
+// Each aspect's difference is divided by `scale`, the difference at which it counts as completely off.
+const DRIFT_ASPECTS: { label: string; scale: number; measure: (a: LookProfile, b: LookProfile) => number }[] = [
+  { label: 'brightness', scale: 64, measure: (a, b) => Math.abs(a.brightness - b.brightness) },
+  { label: 'contrast', scale: 48, measure: (a, b) => Math.abs(a.contrast - b.contrast) },
+  { label: 'colour temperature', scale: 40, measure: (a, b) => Math.abs(a.warmth - b.warmth) },
+  { label: 'background framing', scale: 40, measure: (a, b) => a.edgeRows.reduce((sum, value, i) => sum + Math.abs(value - b.edgeRows[i]), 0) / SAMPLE_SIZE },
+  { label: 'shadow direction', scale: 48, measure: (a, b) => Math.abs(a.shadowBalance - b.shadowBalance) },
+];
+
+/**
+ * Scores how far a result strays from its vehicle's reference shot, from 0 (same look) to 1, and
+ * returns an issue naming the aspects that differ most when it is over the threshold. The shots show
+ * the car from different angles, so only whole-frame statistics are compared, never pixels.
+ */
+export const checkReferenceDrift = async (referenceUrl: string, resultUrl: string): Promise<{ score: number; issue: QualityIssue | null }> => {
+  const [reference, result] = await Promise.all([referenceUrl, resultUrl].map(async url => createImageBitmap(await dataUrlToBlob(url))));
+  const referenceProfile = toLookProfile(reference);
+  const resultProfile = toLookProfile(result);
+  reference.close();
+  result.close();
+
+  const drifts = DRIFT_ASPECTS
+    .map(aspect => ({ label: aspect.label, drift: Math.min(1, aspect.measure(referenceProfile, resultProfile) / aspect.scale) }))
+    .sort((a, b) => b.drift - a.drift);
+  const score = drifts.reduce((sum, aspect) => sum + aspect.drift, 0) / drifts.length;
+  if (score <= QUALITY_THRESHOLDS.maxReferenceDrift) {
+    return { score, issue: null };
+  }
+  const offAspects = drifts.filter((aspect, index) => index === 0 || aspect.drift >= 0.5).map(aspect => aspect.label);
+  return {
+    score,
+    issue: { code: 'reference-drift', message: `Does not match the set's reference (${Math.round(score * 100)}% drift), mostly in ${offAspects.join(', ')}.` },
+  };
+};
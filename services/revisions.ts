@@ -0,0 +1,60 @@
+import type { ImageRevision, ProcessedImage } from '../types';
+
+export const getCurrentRevision = (image: ProcessedImage): ImageRevision | null =>
+  image.revisions.find(r => r.id === image.currentRevisionId) ?? null;
+
+/**
+ * Moves the image to the given revision and keeps `processedUrl` pointing at it. A review, a reference
+ * mark and a drift score apply to the revision on show, so switching to another one (including a new
+ * one) drops them; the reviewer's note is kept.
+ */
+export const selectRevision = (image: ProcessedImage, revisionId: string): ProcessedImage => {
+  const revision = image.revisions.find(r => r.id === revisionId);
+  if (!revision) return image;
+  if (revision.id === image.currentRevisionId) {
+    return { ...image, processedUrl: revision.url };
+  }
+  return {
+    ...image,
+    currentRevisionId: revision.id,
+    processedUrl: revision.url,
+    reviewState: 'unreviewed',
+    isReference: undefined,
+    referenceDrift: undefined,
+  };
+};
+
+/**
+ * Adds a revision as a child of the current one and selects it. Revisions are never
+ * removed, so refining an earlier revision starts a new branch instead of discarding later work.
+ */
+export const addRevision = (
+  image: ProcessedImage,
+  url: string,
+  kind: ImageRevision['kind'],
+  prompt: string,
+  maskUrl?: string
+): ProcessedImage => {
+  const revision: ImageRevision = {
+    id: crypto.randomUUID(),
+    parentId: kind === 'generated' ? null : image.currentRevisionId,
+    url,
+    kind,
+    prompt,
+    maskUrl,
+    createdAt: Date.now(),
+  };
+  return selectRevision({ ...image, revisions: [...image.revisions, revision] }, revision.id);
+};
+
+export const getUndoTarget = (image: ProcessedImage): ImageRevision | null => {
+  const current = getCurrentRevision(image);
+  return current?.parentId ? image.revisions.find(r => r.id === current.parentId) ?? null : null;
+};
+
+// Redo follows the most recently created child, which is the branch the user last worked on.
+export const getRedoTarget = (image: ProcessedImage): ImageRevision | null => {
+  if (!image.currentRevisionId) return null;
+  const children = image.revisions.filter(r => r.parentId === image.currentRevisionId);
+  return children.length > 0 ? children[children.length - 1] : null;
+};
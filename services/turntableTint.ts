@@ -0,0 +1,122 @@
+import type { TurntableEllipse } from '../types';
+
+// Where a turntable usually sits in a rig shot; used when detection finds nothing convincing.
+export const DEFAULT_TURNTABLE_ELLIPSE: TurntableEllipse = { cx: 0.5, cy: 0.8, rx: 0.42, ry: 0.12 };
+
+// Ellipses are stored as fractions of the image size.
+export const isTurntableEllipse = (value: unknown): value is TurntableEllipse => {
+  const ellipse = value as Partial<TurntableEllipse> | null;
+  return !!ellipse && typeof ellipse === 'object' && [ellipse.cx, ellipse.cy, ellipse.rx, ellipse.ry]
+    .every(fraction => typeof fraction === 'number' && Number.isFinite(fraction) && fraction >= 0 && fraction <= 1);
+};
+
+const ANALYSIS_WIDTH = 320;
+const COLOR_TOLERANCE = 40;
+const MIN_SPAN_RATIO = 0.2;
+
+// Decode without colour management so untouched pixels round-trip exactly.
+const decode = (file: Blob) => createImageBitmap(file, { colorSpaceConversion: 'none', premultiplyAlpha: 'none' });
+
+const getContext = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return ctx;
+};
+
+/**
+ * Proposes an ellipse by sampling the platform colour just below centre-bottom and finding, row by
+ * row, how far that colour extends to either side. Falls back to the default rig position.
+ */
+export const proposeTurntableEllipse = async (file: Blob): Promise<TurntableEllipse> => {
+  const bitmap = await decode(file);
+  const width = ANALYSIS_WIDTH;
+  const height = Math.round(bitmap.height * (ANALYSIS_WIDTH / bitmap.width));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = getContext(canvas);
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const pixel = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return [data[i], data[i + 1], data[i + 2]];
+  };
+  const reference = pixel(Math.round(width / 2), Math.round(height * 0.9));
+  const matches = (x: number, y: number) => {
+    const [r, g, b] = pixel(x, y);
+    return Math.abs(r - reference[0]) + Math.abs(g - reference[1]) + Math.abs(b - reference[2]) < COLOR_TOLERANCE * 3;
+  };
+
+  let top = -1;
+  let bottom = -1;
+  let left = width;
+  let right = 0;
+  for (let y = Math.round(height * 0.45); y < height; y++) {
+    // Walk outwards from each edge of the image toward the centre to find the platform's extent,
+    // which skips over the car sitting in the middle of it.
+    let spanLeft = -1;
+    let spanRight = -1;
+    for (let x = 0; x < width / 2; x++) {
+      if (matches(x, y)) { spanLeft = x; break; }
+    }
+    for (let x = width - 1; x >= width / 2; x--) {
+      if (matches(x, y)) { spanRight = x; break; }
+    }
+    if (spanLeft < 0 || spanRight < 0 || (spanRight - spanLeft) / width < MIN_SPAN_RATIO) continue;
+    // A span touching both image edges is floor, not platform.
+    if (spanLeft === 0 && spanRight === width - 1) continue;
+    if (top < 0) top = y;
+    bottom = y;
+    left = Math.min(left, spanLeft);
+    right = Math.max(right, spanRight);
+  }
+
+  if (top < 0 || bottom - top < height * 0.05) {
+    return DEFAULT_TURNTABLE_ELLIPSE;
+  }
+  return {
+    cx: (left + right) / 2 / width,
+    cy: (top + bottom) / 2 / height,
+    rx: (right - left) / 2 / width,
+    ry: (bottom - top) / 2 / height,
+  };
+};
+
+/**
+ * Tints only the area inside the ellipse. Everything outside it is copied from the source
+ * untouched and the result is PNG-encoded, so those pixels stay identical to the input.
+ */
+export const applyTurntableTint = async (
+  file: Blob,
+  ellipse: TurntableEllipse,
+  color: string,
+  // 0-1, as a canvas alpha.
+  opacity: number
+): Promise<string> => {
+  const bitmap = await decode(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = getContext(canvas);
+  ctx.drawImage(bitmap, 0, 0);
+
+  ctx.save();
+  ctx.beginPath();
+  ctx.ellipse(
+    ellipse.cx * bitmap.width,
+    ellipse.cy * bitmap.height,
+    ellipse.rx * bitmap.width,
+    ellipse.ry * bitmap.height,
+    0, 0, Math.PI * 2
+  );
+  ctx.clip();
+  ctx.globalAlpha = opacity;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, bitmap.width, bitmap.height);
+  ctx.restore();
+
+  return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,84 @@
+import type { ApiUsage } from '../types';
+
+interface ModelPricing {
+  // US dollars per million tokens.
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // Typical token counts for one car composite, used to estimate a call before it is made.
+  typicalInputTokens: number;
+  typicalOutputTokens: number;
+}
+
+// Published list prices; update when Google changes them. Image output is billed as output tokens.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash-image-preview': {
+    inputPerMillion: 0.3,
+    outputPerMillion: 30,
+    typicalInputTokens: 1600,
+    typicalOutputTokens: 1300,
+  },
+};
+
+export const EMPTY_USAGE: ApiUsage = { calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0 };
+
+interface UsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+export const usageFromMetadata = (model: string, metadata: UsageMetadata | undefined): ApiUsage => {
+  const pricing = MODEL_PRICING[model];
+  const promptTokens = metadata?.promptTokenCount ?? 0;
+  const outputTokens = metadata?.candidatesTokenCount ?? 0;
+  return {
+    calls: 1,
+    promptTokens,
+    outputTokens,
+    totalTokens: metadata?.totalTokenCount ?? promptTokens + outputTokens,
+    costUsd: pricing ? (promptTokens * pricing.inputPerMillion + outputTokens * pricing.outputPerMillion) / 1_000_000 : 0,
+  };
+};
+
+export const estimateCallCost = (model: string): number => {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) return 0;
+  return (pricing.typicalInputTokens * pricing.inputPerMillion + pricing.typicalOutputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+export const addUsage = (a: ApiUsage, b: ApiUsage | null | undefined): ApiUsage => b ? {
+  calls: a.calls + b.calls,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  totalTokens: a.totalTokens + b.totalTokens,
+  costUsd: a.costUsd + b.costUsd,
+} : a;
+
+export const formatCost = (costUsd: number): string =>
+  `$${costUsd < 1 ? costUsd.toFixed(3) : costUsd.toFixed(2)}`;
+
+/** A provider error for a call that was still billed, such as a refusal returned as text. */
+export class BilledError extends Error {
+  constructor(message: string, readonly usage: ApiUsage) {
+    super(message);
+    this.name = 'BilledError';
+  }
+}
+
+export const getErrorUsage = (error: unknown): ApiUsage | null => error instanceof BilledError ? error.usage : null;
+
+// --- Budget persistence ---
+const SESSION_BUDGET_STORAGE_KEY = 'autoshade.sessionBudgetUsd';
+
+export const loadSessionBudget = (): number | null => {
+  const value = Number(localStorage.getItem(SESSION_BUDGET_STORAGE_KEY));
+  return value > 0 ? value : null;
+};
+
+export const saveSessionBudget = (budgetUsd: number | null) => {
+  if (budgetUsd === null) {
+    localStorage.removeItem(SESSION_BUDGET_STORAGE_KEY);
+  } else {
+    localStorage.setItem(SESSION_BUDGET_STORAGE_KEY, String(budgetUsd));
+  }
+};
@@ -0,0 +1,78 @@
+// Photographers name shots like STK12345_03.jpg: the stock number, then the shot within the vehicle's set.
+export const DEFAULT_VEHICLE_PATTERN = '{stock}_{shot}';
+
+export const VEHICLE_PATTERN_TOKENS: { token: string; description: string }[] = [
+  { token: '{stock}', description: 'Stock number: letters, digits and dashes, with at least one digit' },
+  { token: '{shot}', description: 'Shot number within the vehicle (digits)' },
+  { token: '*', description: 'Any text' },
+];
+
+// The digit requirement keeps camera defaults such as IMG_0042 from being read as vehicle "IMG".
+const TOKEN_EXPRESSIONS: Record<string, string> = {
+  '{stock}': '(?<stock>[A-Za-z0-9-]*\\d[A-Za-z0-9-]*)',
+  '{shot}': '(?<shot>\\d+)',
+  '*': '.*?',
+};
+
+export interface VehicleName {
+  // Upper-cased, so stk12345_01.jpg and STK12345_02.jpg land in the same vehicle.
+  stock: string;
+  shot: number | null;
+}
+
+export interface VehicleGroup<T> {
+  // Null for the items whose filename does not match the pattern.
+  stock: string | null;
+  items: T[];
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Returns any `{token}` in the pattern that is not one of VEHICLE_PATTERN_TOKENS. */
+export const findUnknownPatternTokens = (pattern: string): string[] => {
+  const known = new Set(VEHICLE_PATTERN_TOKENS.map(t => t.token));
+  return Array.from(new Set(pattern.match(/\{[^}]*\}/g) ?? [])).filter(token => !known.has(token));
+};
+
+/** Compiles the pattern into a regular expression for filenames without their extension, or null if it has no usable {stock}. */
+const compileVehiclePattern = (pattern: string): RegExp | null => {
+  const parts = pattern.trim().split(/(\{stock\}|\{shot\}|\*)/).filter(Boolean);
+  if (parts.filter(part => part === '{stock}').length !== 1 || parts.filter(part => part === '{shot}').length > 1) return null;
+  return new RegExp(`^${parts.map(part => TOKEN_EXPRESSIONS[part] ?? escapeRegExp(part)).join('')}$`, 'i');
+};
+
+export const isValidVehiclePattern = (pattern: string): boolean => compileVehiclePattern(pattern) !== null;
+
+const matchVehicleName = (filename: string, expression: RegExp | null): VehicleName | null => {
+  const groups = expression?.exec(filename.replace(/\.[^.]+$/, ''))?.groups;
+  if (!groups) return null;
+  return { stock: groups.stock.toUpperCase(), shot: groups.shot !== undefined ? Number(groups.shot) : null };
+};
+
+export const parseVehicleName = (filename: string, pattern: string): VehicleName | null =>
+  matchVehicleName(filename, compileVehiclePattern(pattern));
+
+export const getStockNumber = (filename: string, pattern: string): string | null =>
+  parseVehicleName(filename, pattern)?.stock ?? null;
+
+/**
+ * Groups items per vehicle in the order each vehicle first appears, with every set sorted by shot
+ * number. Items whose filename does not match end up in a single trailing group with a null stock.
+ */
+export const groupByVehicle = <T>(items: T[], getFilename: (item: T) => string, pattern: string): VehicleGroup<T>[] => {
+  const expression = compileVehiclePattern(pattern);
+  const groups = new Map<string | null, { item: T; shot: number }[]>();
+  for (const item of items) {
+    const name = matchVehicleName(getFilename(item), expression);
+    const key = name?.stock ?? null;
+    groups.set(key, [...(groups.get(key) ?? []), { item, shot: name?.shot ?? Number.POSITIVE_INFINITY }]);
+  }
+  const unmatched = groups.get(null);
+  groups.delete(null);
+  const result = Array.from(groups, ([stock, entries]): VehicleGroup<T> => ({
+    stock,
+    // Array.prototype.sort is stable, so shots without a number keep their upload order at the end.
+    items: entries.sort((a, b) => a.shot === b.shot ? 0 : a.shot - b.shot).map(entry => entry.item),
+  }));
+  return unmatched ? [...result, { stock: null, items: unmatched.map(entry => entry.item) }] : result;
+};
@@ -1,19 +1,198 @@
-export type ProcessingStatus = 'pending' | 'processing' | 'done' | 'error';
-export type ProcessingMode = 'full' | 'partial-wall' | 'turntable-tint' | 'tint-turntable-only';
-export type FloorEffect = 'none' | 'desaturate' | 'red' | 'yellow';
-export type TurntableTint = 'none' | 'red' | 'yellow';
+// 'needs-review' results were generated but failed a local quality check. 'paused' images are held in
+// the queue until resumed; 'cancelled' ones have left it and can be queued again.
+export type ProcessingStatus = 'pending' | 'processing' | 'paused' | 'done' | 'needs-review' | 'error' | 'cancelled';
+// Review is a person's sign-off on the result on show, tracked separately from how processing went.
+export type ReviewState = 'unreviewed' | 'approved' | 'rejected';
+export type BuiltInProcessingMode = 'full' | 'partial-wall' | 'turntable-tint' | 'tint-turntable-only';
+export type ProcessingMode = BuiltInProcessingMode | `custom:${string}`;
+export type FloorEffect = 'none' | 'desaturate' | 'tint';
+export type TurntableTint = 'none' | 'tint';
+export type ImageProviderId = 'gemini' | 'mock';
 
 export interface ProcessingOptions {
   floorEffect: FloorEffect;
+  // Colours are CSS colours (the UI writes hex); opacities are percentages, 0-100.
+  floorTintColor: string;
+  floorTintOpacity: number;
   matchReflections: boolean;
   turntableTint: TurntableTint;
+  turntableTintColor: string;
+  turntableTintOpacity: number;
+}
+
+// Turntable position as fractions of the image size, so one mask fits every shot from the same rig.
+export interface TurntableEllipse {
+  cx: number;
+  cy: number;
+  rx: number;
+  ry: number;
+}
+
+export type PromptVariable = keyof ProcessingOptions;
+
+export interface PromptStep {
+  text: string;
+  // The step is only included when the variable currently holds one of these values.
+  when?: { variable: PromptVariable; in: Array<ProcessingOptions[PromptVariable]> };
+}
+
+export interface PromptTemplate {
+  id: ProcessingMode;
+  version: number;
+  label: string;
+  description: string;
+  builtIn: boolean;
+  requiresBackground: boolean;
+  // Options this template reads; the mode picker shows controls for exactly these.
+  variables: PromptVariable[];
+  intro: string;
+  steps: PromptStep[];
+  outro: string;
+}
+
+export interface ImageRevision {
+  id: string;
+  // Null for the first generated result; refinements point at the revision they were made from.
+  parentId: string | null;
+  url: string;
+  kind: 'generated' | 'refined';
+  prompt: string;
+  // Alpha mask that limited a refinement to part of the image.
+  maskUrl?: string;
+  createdAt: number;
+}
+
+// Token counts and estimated cost of one or more provider calls.
+export interface ApiUsage {
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export type QualityIssueCode = 'too-small' | 'aspect-ratio' | 'unchanged' | 'blank' | 'reference-drift';
+
+export interface QualityIssue {
+  code: QualityIssueCode;
+  message: string;
 }
 
 export interface ProcessedImage {
   id: string;
   originalFile: File;
   originalUrl: string;
+  // The background this result was composited onto; null for modes that do not use one.
+  backgroundFile: File | null;
+  // The mode and options the batch was run with, kept so exports can describe each result.
+  processingMode: ProcessingMode;
+  processingOptions: ProcessingOptions;
+  // Whether a turntable-only tint is painted locally, and where, so a retry renders the same way.
+  localTurntableTint: boolean;
+  turntableMask: TurntableEllipse;
   processedUrl: string | null;
   status: ProcessingStatus;
   error?: string;
+  qualityIssues?: QualityIssue[];
+  // Everything spent on this result, including quality re-runs and refinements.
+  usage?: ApiUsage;
+  reviewState: ReviewState;
+  reviewNote?: string;
+  // Marks the approved result later generations of the same vehicle are matched against.
+  isReference?: boolean;
+  // How far the result strayed from its vehicle's reference (0-1), when it was generated with one.
+  referenceDrift?: number;
+  attempts: number;
+  nextRetryAt: number | null;
+  revisions: ImageRevision[];
+  currentRevisionId: string | null;
+}
+
+export type ExportFormat = 'image/jpeg' | 'image/png' | 'image/webp';
+
+export interface ExportProfile {
+  id: string;
+  name: string;
+  builtIn: boolean;
+  // Exact output size in pixels; null keeps the generated dimensions.
+  size: { width: number; height: number } | null;
+  // How to reconcile a different aspect ratio: crop to fill, or pad with `padColor`.
+  fit: 'crop' | 'pad';
+  padColor: string;
+  // Null keeps whatever format the provider returned.
+  format: ExportFormat | null;
+  quality: number;
+  maxFileSizeKB: number | null;
+}
+
+// How results are grouped into folders inside the zip. 'auto' only splits by background when there are several.
+export type FolderLayout = 'auto' | 'flat' | 'background' | 'stock' | 'mode';
+
+export interface OutputNaming {
+  // Filename without extension, built from tokens such as {name} and {index}.
+  filenameTemplate: string;
+  folderLayout: FolderLayout;
+}
+
+// Settings for every photo of one vehicle that replace the batch's. A background is referred to by
+// filename, since the File objects are recreated when a project is loaded.
+export interface VehicleOverride {
+  backgroundName: string | null;
+  presetId: string | null;
+}
+
+export interface ProjectSettings {
+  processingMode: ProcessingMode;
+  processingOptions: ProcessingOptions;
+  providerId: ImageProviderId;
+  concurrency: number;
+  exportProfileId: string;
+  localTurntableTint: boolean;
+  turntableMask: TurntableEllipse;
+  outputNaming: OutputNaming;
+  // Regenerate results that fail the quality check before flagging them for review.
+  autoRerunFlagged: boolean;
+  // How a stock number is read from car filenames, e.g. {stock}_{shot}; see services/vehicles.
+  vehiclePattern: string;
+  // Keyed by stock number.
+  vehicleOverrides: Record<string, VehicleOverride>;
+}
+
+// Object URLs do not survive a reload, so stored images drop `originalUrl` and it is recreated on load.
+export type StoredProcessedImage = Omit<ProcessedImage, 'originalUrl'>;
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  carImages: File[];
+  backgroundImages: File[];
+  processedImages: StoredProcessedImage[];
+  settings: ProjectSettings;
+}
+
+export interface Preset {
+  id: string;
+  name: string;
+  createdAt: number;
+  processingMode: ProcessingMode;
+  processingOptions: ProcessingOptions;
+  // Definitions of a custom mode or export profile, so the preset works in browsers that never had them.
+  customTemplate: PromptTemplate | null;
+  backgroundImages: File[];
+  localTurntableTint: boolean;
+  turntableMask: TurntableEllipse;
+  exportProfileId: string;
+  customExportProfile: ExportProfile | null;
+  outputNaming: OutputNaming;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  carImageCount: number;
+  doneCount: number;
 }
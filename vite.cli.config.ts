@@ -0,0 +1,11 @@
+import { defineConfig } from 'vite';
+
+// Builds the headless CLI for Node. Unlike the app config, the API key is read at runtime rather than inlined.
+export default defineConfig({
+  build: {
+    ssr: 'cli/autoshade.ts',
+    outDir: 'dist-cli',
+    target: 'node20',
+    emptyOutDir: true,
+  },
+});